@@ -0,0 +1,380 @@
+import { BN, utils } from "@coral-xyz/anchor";
+import {
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  VaultReceiptClient,
+  decodeOffline,
+  itemStatus,
+  prepareOffline,
+  translateError,
+} from "../sdk";
+
+export interface CliContext {
+  client: VaultReceiptClient;
+  /** Acts as custodian, depositor, owner or redeemer, and pays fees. */
+  wallet: Keypair;
+  print(line: string): void;
+  printError(line: string): void;
+}
+
+export const USAGE = `usage: rwa [--cluster <name|url>] [--wallet <keypair.json>] [--json] <command>
+
+commands:
+  vault create <name>
+  vault ls [--custodian <pubkey> | --all]
+  item issue <vault> <item-id> [--depositor <pubkey>] [--custodian <pubkey>] [--metadata <uri>]
+  item transfer <vault> <item-id> <new-owner>
+  item redeem <vault> <item-id> [--redeemer <pubkey>] [--custodian <pubkey>]
+  item show <vault> <item-id>
+
+--custodian, --depositor and --redeemer default to the wallet. The co-signed
+commands (item issue, item redeem) can be signed on separate machines:
+  --nonce <account>               build on a durable nonce account, which does
+                                  not expire while signatures are collected
+  --blockhash <hash>              or build against the same blockhash
+                                  everywhere, within about a minute
+  --sign-only                     print the signatures as --signer values instead
+                                  of sending
+  --signer <pubkey>=<signature>   add a signature printed by --sign-only`;
+
+/** Options that take no value. */
+const SWITCHES = ["json", "sign-only", "all"];
+
+/** Thrown for malformed command lines; reported with the usage text. */
+export class UsageError extends Error {}
+
+interface ParsedArgs {
+  positional: string[];
+  options: { [name: string]: string[] };
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    let value = "true";
+    if (SWITCHES.indexOf(name) < 0) {
+      if (i + 1 >= argv.length) {
+        throw new UsageError(`${arg} needs a value`);
+      }
+      value = argv[++i];
+    }
+    parsed.options[name] = (parsed.options[name] ?? []).concat(value);
+  }
+  return parsed;
+}
+
+/**
+ * Runs one `rwa` command against `context.client` and returns the process
+ * exit code: 0 on success, 1 when the command failed, 2 on a usage error.
+ * Global `--cluster` and `--wallet` options are resolved by the caller.
+ */
+export async function runCli(
+  argv: string[],
+  context: CliContext
+): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+    const json = args.options.json !== undefined;
+    const result = await dispatch(args, context);
+    if (json) {
+      context.print(JSON.stringify(toPlain(result), null, 2));
+    } else {
+      printHuman(toPlain(result), context.print);
+    }
+    return 0;
+  } catch (err) {
+    if (err instanceof UsageError) {
+      context.printError(`error: ${err.message}`);
+      context.printError(USAGE);
+      return 2;
+    }
+    context.printError(`error: ${(err as Error).message ?? String(err)}`);
+    return 1;
+  }
+}
+
+async function dispatch(
+  { positional, options }: ParsedArgs,
+  context: CliContext
+): Promise<unknown> {
+  const { client, wallet } = context;
+  const [group, command, ...rest] = positional;
+  const key = (name: string) => {
+    const value = option(options, name);
+    return value === undefined ? wallet.publicKey : parseKey(value, name);
+  };
+
+  switch (`${group} ${command}`) {
+    case "vault create": {
+      const [vaultName] = expectArgs(rest, ["name"]);
+      const { signature, vault } = await client.createVault({
+        custodian: wallet,
+        vaultName,
+      });
+      return { signature, vault };
+    }
+
+    case "vault ls": {
+      expectArgs(rest, []);
+      const custodian =
+        options.all !== undefined ? undefined : key("custodian");
+      const vaults = await client.listVaults({ custodian });
+      return vaults.map(({ publicKey, account }) => ({
+        vault: publicKey,
+        name: account.vaultName,
+        custodian: account.custodian,
+        paused: account.paused,
+        itemsIssued: account.itemsIssued,
+        itemsOutstanding: account.itemsOutstanding,
+      }));
+    }
+
+    case "item issue": {
+      const [vaultArg, itemId] = expectArgs(rest, ["vault", "item-id"]);
+      const vault = parseKey(vaultArg, "vault");
+      const custodian = key("custodian");
+      const instruction = await client.depositAndIssueInstruction({
+        custodian,
+        depositor: key("depositor"),
+        vault,
+        itemId,
+        metadataUri: option(options, "metadata") ?? null,
+      });
+      const sent = await sendCoSigned(context, instruction, custodian, options);
+      return { ...sent, item: client.findItemAddress(vault, itemId)[0] };
+    }
+
+    case "item transfer": {
+      const [vaultArg, itemId, newOwner] = expectArgs(rest, [
+        "vault",
+        "item-id",
+        "new-owner",
+      ]);
+      const signature = await client.transferClaim({
+        currentOwner: wallet,
+        vault: parseKey(vaultArg, "vault"),
+        itemId,
+        newOwner: parseKey(newOwner, "new-owner"),
+      });
+      return { signature };
+    }
+
+    case "item redeem": {
+      const [vaultArg, itemId] = expectArgs(rest, ["vault", "item-id"]);
+      const custodian = key("custodian");
+      const instruction = await client.redeemItemInstruction({
+        custodian,
+        redeemer: key("redeemer"),
+        vault: parseKey(vaultArg, "vault"),
+        itemId,
+      });
+      return sendCoSigned(context, instruction, custodian, options);
+    }
+
+    case "item show": {
+      const [vaultArg, itemId] = expectArgs(rest, ["vault", "item-id"]);
+      const [item] = client.findItemAddress(
+        parseKey(vaultArg, "vault"),
+        itemId
+      );
+      const record = await client.fetchItem(item);
+      return {
+        item,
+        ...record,
+        status: itemStatus(record),
+        metadataHash: record.metadataHash
+          ? Buffer.from(record.metadataHash).toString("hex")
+          : null,
+      };
+    }
+
+    default:
+      throw new UsageError(
+        group ? `unknown command: ${positional.join(" ")}` : "missing command"
+      );
+  }
+}
+
+/**
+ * Signs a transaction that needs several signers, paid for by `feePayer`.
+ * The wallet signs if it is one of them and `--signer` adds the others'
+ * signatures. With `--sign-only` the signatures collected so far are
+ * returned as `--signer` values for the party that sends; every party must
+ * use the same `--nonce` account or `--blockhash`. A blockhash expires after
+ * about a minute, a nonce only once a transaction built on it is sent.
+ */
+async function sendCoSigned(
+  { client, wallet }: CliContext,
+  instruction: TransactionInstruction,
+  feePayer: PublicKey,
+  options: ParsedArgs["options"]
+): Promise<
+  | { signature: string }
+  | { blockhash: string; signers: string[] }
+  | { nonce: PublicKey; signers: string[] }
+> {
+  const { connection } = client.program.provider;
+  const nonceOption = option(options, "nonce");
+  if (nonceOption !== undefined && option(options, "blockhash") !== undefined) {
+    throw new UsageError("--nonce and --blockhash cannot be combined");
+  }
+  const nonce =
+    nonceOption === undefined ? undefined : parseKey(nonceOption, "nonce");
+  const transaction = nonce
+    ? decodeOffline(
+        await prepareOffline(connection, {
+          instructions: [instruction],
+          feePayer,
+          nonceAccount: nonce,
+        })
+      )
+    : new Transaction({
+        feePayer,
+        recentBlockhash:
+          option(options, "blockhash") ??
+          (await connection.getLatestBlockhash()).blockhash,
+      }).add(instruction);
+
+  const message = transaction.compileMessage();
+  const required = message.accountKeys.slice(
+    0,
+    message.header.numRequiredSignatures
+  );
+  if (required.some((key) => key.equals(wallet.publicKey))) {
+    transaction.partialSign(wallet);
+  }
+  for (const pair of options.signer ?? []) {
+    const [publicKey, signature] = pair.split("=");
+    if (!publicKey || !signature) {
+      throw new UsageError(`--signer must be <pubkey>=<signature>: ${pair}`);
+    }
+    transaction.addSignature(
+      parseKey(publicKey, "signer"),
+      Buffer.from(utils.bytes.bs58.decode(signature))
+    );
+  }
+
+  if (options["sign-only"] !== undefined) {
+    return {
+      ...(nonce ? { nonce } : { blockhash: transaction.recentBlockhash }),
+      signers: transaction.signatures
+        .filter(({ signature }) => signature !== null)
+        .map(
+          ({ publicKey, signature }) =>
+            `${publicKey.toBase58()}=${utils.bytes.bs58.encode(signature)}`
+        ),
+    };
+  }
+
+  const missing = transaction.signatures.filter(
+    ({ signature }) => signature === null
+  );
+  if (missing.length > 0) {
+    throw new Error(
+      `missing signatures from ${missing
+        .map(({ publicKey }) => publicKey.toBase58())
+        .join(", ")}; collect them with --sign-only and pass --signer`
+    );
+  }
+  if (!transaction.verifySignatures()) {
+    throw new Error("a --signer signature does not match the transaction");
+  }
+  try {
+    const signature = await connection.sendRawTransaction(
+      transaction.serialize()
+    );
+    const { value } = await connection.confirmTransaction(
+      signature,
+      "confirmed"
+    );
+    if (value.err) {
+      throw new Error(
+        `Transaction ${signature} failed: ${JSON.stringify(value.err)}`
+      );
+    }
+    return { signature };
+  } catch (err) {
+    throw translateError(err);
+  }
+}
+
+function option(
+  options: ParsedArgs["options"],
+  name: string
+): string | undefined {
+  const values = options[name];
+  return values ? values[values.length - 1] : undefined;
+}
+
+function expectArgs(args: string[], names: string[]): string[] {
+  if (args.length !== names.length) {
+    throw new UsageError(
+      `expected ${names.map((name) => `<${name}>`).join(" ") || "no arguments"}`
+    );
+  }
+  return args;
+}
+
+function parseKey(value: string, name: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new UsageError(`invalid ${name} address: ${value}`);
+  }
+}
+
+/** Converts keys and big numbers to strings so results print as JSON. */
+function toPlain(value: unknown): unknown {
+  if (value instanceof PublicKey) {
+    return value.toBase58();
+  }
+  if (BN.isBN(value)) {
+    return (value as BN).toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain);
+  }
+  if (value && typeof value === "object") {
+    const plain: { [key: string]: unknown } = {};
+    Object.keys(value).forEach((key) => {
+      plain[key] = toPlain((value as { [key: string]: unknown })[key]);
+    });
+    return plain;
+  }
+  return value;
+}
+
+/** One `key: value` line per field; lists print one block per entry. */
+function printHuman(value: unknown, print: (line: string) => void): void {
+  if (Array.isArray(value)) {
+    value.forEach((entry, i) => {
+      if (i > 0) {
+        print("");
+      }
+      printHuman(entry, print);
+    });
+    return;
+  }
+  const fields = value as { [key: string]: unknown };
+  Object.keys(fields).forEach((key) => {
+    const field = fields[key];
+    print(
+      `${key}: ${
+        field !== null && typeof field === "object"
+          ? JSON.stringify(field)
+          : String(field)
+      }`
+    );
+  });
+}
@@ -0,0 +1,90 @@
+import { Keypair, clusterApiUrl } from "@solana/web3.js";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export interface ProviderConfig {
+  /** Directory holding `Anchor.toml`, where `target/idl` is read from. */
+  root: string;
+  /** RPC endpoint URL. */
+  cluster: string;
+  /** Path of the wallet keypair file (Solana CLI JSON). */
+  wallet: string;
+}
+
+const CLUSTER_URLS: { [name: string]: string } = {
+  localnet: "http://127.0.0.1:8899",
+  localhost: "http://127.0.0.1:8899",
+  devnet: clusterApiUrl("devnet"),
+  testnet: clusterApiUrl("testnet"),
+  mainnet: clusterApiUrl("mainnet-beta"),
+  "mainnet-beta": clusterApiUrl("mainnet-beta"),
+};
+
+/** Maps Anchor's cluster names to their RPC URL; URLs are returned as-is. */
+export function resolveCluster(cluster: string): string {
+  return CLUSTER_URLS[cluster] ?? cluster;
+}
+
+/** Looks for `Anchor.toml` in `dir` and its parents. */
+export function findAnchorToml(dir: string): string | null {
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const candidate = path.join(current, "Anchor.toml");
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    if (path.dirname(current) === current) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Reads `cluster` and `wallet` from the `[provider]` table of the nearest
+ * `Anchor.toml`. Only flat `key = "value"` lines are understood, which is
+ * all that table holds. `overrides` (from `--cluster` and `--wallet`) win.
+ */
+export function loadProviderConfig(
+  dir: string,
+  overrides: { cluster?: string; wallet?: string } = {}
+): ProviderConfig {
+  const file = findAnchorToml(dir);
+  if (!file) {
+    throw new Error(`No Anchor.toml found in ${dir} or its parents`);
+  }
+
+  const provider: { [key: string]: string } = {};
+  let table = "";
+  for (const line of fs.readFileSync(file, "utf8").split(/\r?\n/)) {
+    const header = line.match(/^\s*\[([^\]]+)\]\s*$/);
+    if (header) {
+      table = header[1].trim();
+      continue;
+    }
+    const entry = line.match(/^\s*([\w-]+)\s*=\s*"([^"]*)"/);
+    if (table === "provider" && entry) {
+      provider[entry[1]] = entry[2];
+    }
+  }
+
+  const cluster = overrides.cluster ?? provider.cluster;
+  const wallet = overrides.wallet ?? provider.wallet;
+  if (!cluster || !wallet) {
+    throw new Error(`${file} has no [provider] cluster and wallet`);
+  }
+  return {
+    root: path.dirname(file),
+    cluster: resolveCluster(cluster),
+    wallet: expandHome(wallet),
+  };
+}
+
+export function loadKeypair(file: string): Keypair {
+  return Keypair.fromSecretKey(
+    Uint8Array.from(JSON.parse(fs.readFileSync(expandHome(file), "utf8")))
+  );
+}
+
+function expandHome(file: string): string {
+  return file.startsWith("~/") ? path.join(os.homedir(), file.slice(2)) : file;
+}
@@ -0,0 +1,64 @@
+// Command-line tool for custodians and holders; see `rwa --help`.
+//
+//   yarn rwa [--cluster <name|url>] [--wallet <keypair.json>] [--json] <command>
+//
+// The cluster and wallet default to the [provider] table of Anchor.toml.
+
+import { AnchorProvider, Program, Wallet } from "@coral-xyz/anchor";
+import { Connection } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+import { VaultReceipt } from "../target/types/vault_receipt";
+import { VaultReceiptClient } from "../sdk";
+import { loadKeypair, loadProviderConfig } from "./config";
+import { USAGE, runCli } from "./commands";
+
+async function main(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv.indexOf("--help") >= 0) {
+    console.log(USAGE);
+    return argv.length === 0 ? 2 : 0;
+  }
+
+  // --cluster and --wallet pick the provider; everything else is the command.
+  const overrides: { cluster?: string; wallet?: string } = {};
+  const rest: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--cluster" || argv[i] === "--wallet") {
+      overrides[argv[i].slice(2) as "cluster" | "wallet"] = argv[++i];
+    } else {
+      rest.push(argv[i]);
+    }
+  }
+
+  const config = loadProviderConfig(process.cwd(), overrides);
+  const wallet = loadKeypair(config.wallet);
+  const provider = new AnchorProvider(
+    new Connection(config.cluster, "confirmed"),
+    new Wallet(wallet),
+    { commitment: "confirmed" }
+  );
+  const idl = JSON.parse(
+    fs.readFileSync(
+      path.join(config.root, "target", "idl", "vault_receipt.json"),
+      "utf8"
+    )
+  );
+  const client = new VaultReceiptClient(
+    new Program<VaultReceipt>(idl, provider)
+  );
+
+  return runCli(rest, {
+    client,
+    wallet,
+    print: (line) => console.log(line),
+    printError: (line) => console.error(line),
+  });
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err);
+    process.exit(1);
+  }
+);
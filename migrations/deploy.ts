@@ -1,12 +1,86 @@
-// Migrations are an early feature. Currently, they're nothing more than this
-// single deploy script that's invoked from the CLI, injecting a provider
-// configured from the workspace's Anchor.toml.
+// Run by `anchor migrate` after `anchor build`, with a provider configured
+// from Anchor.toml. Upgrades the deployed program to target/deploy/rwa.so,
+// then moves every vault and item from before versioning to its current
+// layout and address; until then the upgraded program cannot reach them.
+// Old accounts whose normalized name or id collides with another are listed
+// at the end instead of migrated.
+//
+// The upgrade goes through the Solana CLI, which must be on the PATH, signed
+// by the provider wallet as upgrade authority. Set SKIP_UPGRADE=1 to only
+// migrate accounts, e.g. when the program was upgraded some other way.
 
 import * as anchor from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { VaultReceipt } from "../target/types/vault_receipt";
+import { VaultReceiptClient } from "../sdk";
+
+const ROOT = path.resolve(__dirname, "..");
 
 module.exports = async function (provider: anchor.AnchorProvider) {
-  // Configure client to use the provider.
   anchor.setProvider(provider);
 
-  // Add your deploy script here.
+  const idl = JSON.parse(
+    fs.readFileSync(
+      path.join(ROOT, "target", "idl", "vault_receipt.json"),
+      "utf8"
+    )
+  );
+  const program = new anchor.Program<VaultReceipt>(idl, provider);
+  const payer = provider.wallet.payer;
+  if (!payer) {
+    throw new Error("The provider wallet must be a keypair file");
+  }
+
+  if (!process.env.SKIP_UPGRADE) {
+    upgradeProgram(provider, program.programId);
+  }
+
+  const client = new VaultReceiptClient(program);
+  const { vaults, items, collisions, signatures } =
+    await client.migrateAccounts({ payer });
+  console.log(
+    `Migrated ${vaults.length} vault(s) and ${items.length} item(s) in ${signatures.length} transaction(s)`
+  );
+
+  // Names or ids differing only in case or spacing share one new address.
+  // The custodian closes the others in place with `closeLegacyVault` and
+  // `closeLegacyItem`, the latter co-signed by the depositor.
+  for (const [kind, list] of Object.entries(collisions)) {
+    for (const { legacy, vault, vaultName } of list) {
+      console.warn(
+        `Not migrated (${kind}): ${legacy.toBase58()} (old vault "${vaultName}") collides at vault ${vault.toBase58()}`
+      );
+    }
+  }
 };
+
+/** Writes the new binary to the existing program address. */
+function upgradeProgram(
+  provider: anchor.AnchorProvider,
+  programId: PublicKey
+): void {
+  const wallet = process.env.ANCHOR_WALLET;
+  if (!wallet) {
+    throw new Error("ANCHOR_WALLET is not set; run this with `anchor migrate`");
+  }
+  execFileSync(
+    "solana",
+    [
+      "program",
+      "deploy",
+      path.join(ROOT, "target", "deploy", "rwa.so"),
+      "--program-id",
+      programId.toBase58(),
+      "--upgrade-authority",
+      wallet,
+      "--keypair",
+      wallet,
+      "--url",
+      provider.connection.rpcEndpoint,
+    ],
+    { stdio: "inherit" }
+  );
+}
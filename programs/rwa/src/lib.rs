@@ -1,4 +1,15 @@
 use anchor_lang::prelude::*;
+use anchor_lang::solana_program::hash::hashv;
+use anchor_lang::system_program;
+use anchor_spl::associated_token::AssociatedToken;
+use anchor_spl::token_2022::spl_token_2022::instruction::AuthorityType;
+use anchor_spl::token_2022::Token2022;
+use anchor_spl::token_2022_extensions::spl_token_metadata_interface::state::Field;
+use anchor_spl::token_interface::{
+    self, Burn, FreezeAccount, Mint, MintTo, SetAuthority, ThawAccount, TokenAccount,
+    TokenInterface, TokenMetadataInitialize, TokenMetadataUpdateField, TransferChecked,
+};
+use unicode_normalization::UnicodeNormalization;
 
 declare_id!("AMhfXoXiuxiBUkMTSmhhatA8wqYVjamNMdawqv87gAXk");
 
@@ -10,8 +21,26 @@ pub mod vault_receipt {
         let vault = &mut ctx.accounts.vault;
         require!(vault_name.as_bytes().len() <= 64, ErrorCode::NameTooLong);
         vault.custodian = ctx.accounts.custodian.key();
+        vault.version = VaultAccount::VERSION;
+        vault.name_hash = identifier_seed(&vault_name);
         vault.vault_name = vault_name;
+        vault.creator = ctx.accounts.custodian.key();
+        vault.pending_custodian = None;
+        vault.operators = Vec::new();
+        vault.paused = false;
+        vault.event_seq = 0;
+        vault.items_issued = 0;
+        vault.items_outstanding = 0;
+        vault.items_redeemed = 0;
+        vault.open_records = 0;
+        vault.fees = FeeSchedule::default();
         vault.bump = ctx.bumps.vault;
+
+        let treasury = &mut ctx.accounts.treasury;
+        treasury.vault = vault.key();
+        treasury.fees_collected = 0;
+        treasury.fees_withdrawn = 0;
+        treasury.bump = ctx.bumps.treasury;
         Ok(())
     }
 
@@ -20,26 +49,77 @@ pub mod vault_receipt {
         ctx: Context<DepositAndIssue>,
         item_id: String,
         metadata_uri: Option<String>,
+        metadata_hash: Option<[u8; 32]>,
+        time_locks: TimeLocks,
     ) -> Result<()> {
         let item = &mut ctx.accounts.item;
-        let vault = &ctx.accounts.vault;
+        let vault = &mut ctx.accounts.vault;
 
         require!(item_id.as_bytes().len() <= 64, ErrorCode::IdTooLong);
+        require!(
+            ItemRecord::metadata_fits(&metadata_uri),
+            ErrorCode::MetadataTooLong
+        );
 
+        let timestamp = Clock::get()?.unix_timestamp;
+        require!(time_locks.is_valid(timestamp), ErrorCode::InvalidTimeLocks);
+        require_allowlisted(
+            vault,
+            &ctx.accounts.allowlist_entry,
+            &ctx.accounts.depositor.key(),
+            timestamp,
+        )?;
+
+        item.vault = vault.key();
+        item.index = vault.items_issued;
+        item.version = ItemRecord::VERSION;
+        item.id_hash = identifier_seed(&item_id);
         item.item_id = item_id;
         item.custodian = vault.custodian;
         item.depositor = ctx.accounts.depositor.key();
-        item.deposit_ts = Clock::get()?.unix_timestamp;
-        item.redeemed = false;
+        item.deposit_ts = timestamp;
+        item.status = ItemStatus::Active;
         item.metadata = metadata_uri;
+        item.metadata_hash = metadata_hash;
         item.redeem_ts = None;
+        item.redeem_delegate = None;
+        item.redemption_request = None;
+        item.claim_mint = None;
+        item.frozen = false;
+        item.rent_payer = ctx.accounts.depositor.key();
+        item.listing = None;
+        item.storage_paid_ts = timestamp;
+        item.fractions = None;
+        item.time_locks = time_locks;
+        item.last_verified_ts = None;
+        item.status_note = None;
+        item.pledge = None;
         item.bump = ctx.bumps.item;
 
+        vault.items_issued += 1;
+        vault.items_outstanding += 1;
+        vault.open_records += 1;
+
+        let issuance_fee = vault.fees.issuance_fee;
+        collect_fee(
+            &mut ctx.accounts.treasury,
+            &ctx.accounts.depositor,
+            &ctx.accounts.system_program,
+            issuance_fee,
+        )?;
+
+        let seq = vault.next_event_seq();
+
         emit!(ItemDeposited {
+            vault: vault.key(),
             item_account: item.key(),
             item_id: item.item_id.clone(),
             depositor: item.depositor,
             custodian: item.custodian,
+            issuance_fee,
+            time_locks,
+            timestamp,
+            seq,
         });
 
         Ok(())
@@ -47,184 +127,4312 @@ pub mod vault_receipt {
 
     /// Transfer the on-chain claim (owner) to another wallet. Signed by current owner.
     pub fn transfer_claim(ctx: Context<TransferClaim>, new_owner: Pubkey) -> Result<()> {
+        let timestamp = Clock::get()?.unix_timestamp;
+        ctx.accounts.item.time_locks.check_transfer(timestamp)?;
+        require_allowlisted(
+            &ctx.accounts.vault,
+            &ctx.accounts.allowlist_entry,
+            &new_owner,
+            timestamp,
+        )?;
+
         let item = &mut ctx.accounts.item;
-        require!(!item.redeemed, ErrorCode::AlreadyRedeemed);
+        require!(!item.status.is_retired(), ErrorCode::AlreadyRedeemed);
 
         let old_owner = item.depositor;
         item.depositor = new_owner;
+        // A delegate approved by the previous holder must not carry over.
+        item.redeem_delegate = None;
+
+        let seq = ctx.accounts.vault.next_event_seq();
 
         emit!(ClaimTransferred {
+            vault: ctx.accounts.vault.key(),
             item_account: item.key(),
+            item_id: item.item_id.clone(),
             old_owner,
             new_owner,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Holder pre-authorizes another wallet to redeem on their behalf, or clears it with `None`.
+    pub fn set_redeem_delegate(
+        ctx: Context<SetRedeemDelegate>,
+        delegate: Option<Pubkey>,
+    ) -> Result<()> {
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let holder = sync_holder(&mut ctx.accounts.item, claim_token.as_ref());
+        require_keys_eq!(holder, ctx.accounts.holder.key(), ErrorCode::NotClaimHolder);
+
+        let item = &mut ctx.accounts.item;
+        item.redeem_delegate = delegate;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(RedeemDelegateSet {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder: item.depositor,
+            delegate,
+            timestamp,
+            seq,
         });
 
         Ok(())
     }
 
     /// Custodian redeems the item — marks it redeemed so it can't be transferred again.
+    /// The redeemer must be the current claim holder or the delegate they approved.
     pub fn redeem_item(ctx: Context<RedeemItem>) -> Result<()> {
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let redeemer = ctx.accounts.redeemer.key();
+        let holder = sync_holder(&mut ctx.accounts.item, claim_token.as_ref());
+        require!(
+            redeemer == holder || ctx.accounts.item.redeem_delegate == Some(redeemer),
+            ErrorCode::UnauthorizedRedeemer
+        );
+        let timestamp = Clock::get()?.unix_timestamp;
+        ctx.accounts.item.time_locks.check_redemption(timestamp)?;
+        require_allowlisted(
+            &ctx.accounts.vault,
+            &ctx.accounts.allowlist_entry,
+            &redeemer,
+            timestamp,
+        )?;
+
+        if let Some(claim_token) = &claim_token {
+            claim_token.burn(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+        }
+
+        let fees = &ctx.accounts.vault.fees;
+        let storage_fee = fees.storage_fee(ctx.accounts.item.storage_paid_ts, timestamp);
+        let redemption_fee = fees.redemption_fee;
+        collect_fee(
+            &mut ctx.accounts.treasury,
+            &ctx.accounts.redeemer,
+            &ctx.accounts.system_program,
+            storage_fee + redemption_fee,
+        )?;
+
         let item = &mut ctx.accounts.item;
-        require!(!item.redeemed, ErrorCode::AlreadyRedeemed);
+        require!(!item.status.is_retired(), ErrorCode::AlreadyRedeemed);
 
-        item.redeemed = true;
-        item.redeem_ts = Some(Clock::get()?.unix_timestamp);
+        item.status = ItemStatus::Redeemed;
+        item.redeem_ts = Some(timestamp);
+        item.storage_paid_ts = timestamp;
+
+        let vault = &mut ctx.accounts.vault;
+        vault.record_redemption();
+        let seq = vault.next_event_seq();
 
         emit!(ItemRedeemed {
+            vault: vault.key(),
             item_account: item.key(),
             item_id: item.item_id.clone(),
             redeemer: ctx.accounts.redeemer.key(),
             custodian: ctx.accounts.custodian.key(),
+            storage_fee,
+            redemption_fee,
+            timestamp,
+            seq,
         });
 
         Ok(())
     }
-}
 
-#[derive(Accounts)]
-#[instruction(vault_name: String)]
-pub struct InitializeVault<'info> {
-    #[account(mut)]
-    pub custodian: Signer<'info>,
+    /// Holder (or their redeem delegate) asks the custodian to release the item.
+    /// The claim is locked against transfers until the request is fulfilled or cancelled.
+    pub fn request_redemption(ctx: Context<RequestRedemption>) -> Result<()> {
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let requester = ctx.accounts.requester.key();
+        let holder = sync_holder(&mut ctx.accounts.item, claim_token.as_ref());
+        require!(
+            requester == holder || ctx.accounts.item.redeem_delegate == Some(requester),
+            ErrorCode::UnauthorizedRedeemer
+        );
+        let timestamp = Clock::get()?.unix_timestamp;
+        ctx.accounts.item.time_locks.check_redemption(timestamp)?;
+        require_allowlisted(
+            &ctx.accounts.vault,
+            &ctx.accounts.allowlist_entry,
+            &requester,
+            timestamp,
+        )?;
 
-    #[account(
-        init,
-        payer = custodian,
-        space = VaultAccount::SPACE,
-        seeds = [b"vault", custodian.key().as_ref(), vault_name.as_bytes()],
-        bump,
-    )]
-    pub vault: Account<'info, VaultAccount>,
+        // A claim token can't be stopped by `transfer_claim` checks, so freeze it instead.
+        if let Some(claim_token) = &claim_token {
+            claim_token.freeze(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+        }
 
-    pub system_program: Program<'info, System>,
-}
+        // Fees are paid up front, since the requester does not sign the fulfilment. Storage owed
+        // so far is collected; the redemption fee is held on the item record until the request is
+        // fulfilled, or refunded if it is cancelled.
+        let fees = &ctx.accounts.vault.fees;
+        let storage_fee = fees.storage_fee(ctx.accounts.item.storage_paid_ts, timestamp);
+        let redemption_fee = fees.redemption_fee;
+        collect_fee(
+            &mut ctx.accounts.treasury,
+            &ctx.accounts.requester,
+            &ctx.accounts.system_program,
+            storage_fee,
+        )?;
+        if redemption_fee > 0 {
+            system_program::transfer(
+                CpiContext::new(
+                    ctx.accounts.system_program.to_account_info(),
+                    system_program::Transfer {
+                        from: ctx.accounts.requester.to_account_info(),
+                        to: ctx.accounts.item.to_account_info(),
+                    },
+                ),
+                redemption_fee,
+            )?;
+        }
 
-#[derive(Accounts)]
-#[instruction(item_id: String)]
-pub struct DepositAndIssue<'info> {
-    /// Custodian signs to confirm acceptance of the physical item
-    #[account(mut)]
-    pub custodian: Signer<'info>,
+        let item = &mut ctx.accounts.item;
+        item.storage_paid_ts = timestamp;
+        item.redemption_fee_held = redemption_fee;
+        item.redemption_request = Some(RedemptionRequest {
+            requester,
+            requested_ts: timestamp,
+        });
 
-    /// The depositor who will receive the on-chain claim
-    #[account(mut)]
-    pub depositor: Signer<'info>,
+        let seq = ctx.accounts.vault.next_event_seq();
 
-    #[account(
-        seeds = [b"vault", vault.custodian.as_ref(), vault.vault_name.as_bytes()], 
-        bump = vault.bump
-    )]
-    pub vault: Account<'info, VaultAccount>,
+        emit!(RedemptionRequested {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            requester,
+            storage_fee,
+            redemption_fee,
+            timestamp,
+            seq,
+        });
 
-    #[account(
-        init,
-        payer = depositor,
-        space = ItemRecord::SPACE,
-        seeds = [b"item", vault.key().as_ref(), item_id.as_bytes()],
-        bump,
-    )]
-    pub item: Account<'info, ItemRecord>,
+        Ok(())
+    }
 
-    pub system_program: Program<'info, System>,
-}
+    /// Custodian releases the physical item for a pending request — marks it redeemed.
+    pub fn fulfil_redemption(ctx: Context<FulfilRedemption>) -> Result<()> {
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let request = ctx
+            .accounts
+            .item
+            .redemption_request
+            .ok_or(ErrorCode::NoRedemptionRequest)?;
 
-#[derive(Accounts)]
-pub struct TransferClaim<'info> {
-    /// Current owner (depositor field) must sign
-    #[account(mut)]
-    pub current_owner: Signer<'info>,
+        if let Some(claim_token) = &claim_token {
+            claim_token.burn(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+        }
 
-    #[account(
-        seeds = [b"vault", vault.custodian.as_ref(), vault.vault_name.as_bytes()], 
-        bump = vault.bump
-    )]
-    pub vault: Account<'info, VaultAccount>,
+        let treasury_info = ctx.accounts.treasury.to_account_info();
+        let redemption_fee = release_held_fee(&mut ctx.accounts.item, &treasury_info)?;
+        ctx.accounts.treasury.fees_collected += redemption_fee;
 
-    #[account(
-        mut,
-        seeds = [b"item", vault.key().as_ref(), item.item_id.as_bytes()], 
-        bump = item.bump,
-        constraint = item.depositor == current_owner.key() @ ErrorCode::UnauthorizedTransfer,
-        constraint = !item.redeemed @ ErrorCode::AlreadyRedeemed
-    )]
-    pub item: Account<'info, ItemRecord>,
-}
+        let item = &mut ctx.accounts.item;
+        let timestamp = Clock::get()?.unix_timestamp;
+        item.status = ItemStatus::Redeemed;
+        item.redeem_ts = Some(timestamp);
+        item.redemption_request = None;
 
-#[derive(Accounts)]
-pub struct RedeemItem<'info> {
-    /// Custodian signs to confirm physical release
-    #[account(mut)]
-    pub custodian: Signer<'info>,
+        let vault = &mut ctx.accounts.vault;
+        vault.record_redemption();
+        let seq = vault.next_event_seq();
 
-    /// The wallet presenting the token (redeemer)
-    pub redeemer: Signer<'info>,
+        emit!(ItemRedeemed {
+            vault: vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            redeemer: request.requester,
+            custodian: ctx.accounts.custodian.key(),
+            storage_fee: 0,
+            redemption_fee,
+            timestamp,
+            seq,
+        });
 
-    #[account(
-        seeds = [b"vault", vault.custodian.as_ref(), vault.vault_name.as_bytes()], 
-        bump = vault.bump
-    )]
-    pub vault: Account<'info, VaultAccount>,
+        Ok(())
+    }
 
-    #[account(
-        mut,
-        seeds = [b"item", vault.key().as_ref(), item.item_id.as_bytes()], 
-        bump = item.bump,
-        constraint = item.custodian == custodian.key() @ ErrorCode::UnauthorizedRedemption,
-        constraint = !item.redeemed @ ErrorCode::AlreadyRedeemed
-    )]
-    pub item: Account<'info, ItemRecord>,
+    /// Withdraws a pending request and refunds the redemption fee it holds to the requester.
+    /// Either the holder, the requester or the custodian (or an operator) may cancel.
+    pub fn cancel_redemption(ctx: Context<CancelRedemption>) -> Result<()> {
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let request = ctx
+            .accounts
+            .item
+            .redemption_request
+            .ok_or(ErrorCode::NoRedemptionRequest)?;
 
-    pub system_program: Program<'info, System>,
-}
+        let authority = ctx.accounts.authority.key();
+        let item = &ctx.accounts.item;
+        require!(
+            authority == item.depositor
+                || authority == request.requester
+                || ctx.accounts.vault.can_operate(&authority),
+            ErrorCode::UnauthorizedCancellation
+        );
 
-#[account]
-pub struct VaultAccount {
-    pub custodian: Pubkey,  // 32 bytes
-    pub vault_name: String, // 4 + 64 bytes (max)
-    pub bump: u8,           // 1 byte
-}
+        // A frozen or contested item keeps its claim token frozen until it is released.
+        if let Some(claim_token) = &claim_token {
+            if !ctx.accounts.item.frozen && !ctx.accounts.item.status.is_contested() {
+                claim_token.thaw(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+            }
+        }
 
-impl VaultAccount {
-    pub const SPACE: usize = 8 + 32 + 4 + 64 + 1; // discriminator + fields = 109 bytes
-}
+        let requester_info = ctx.accounts.requester.to_account_info();
+        let refunded_fee = release_held_fee(&mut ctx.accounts.item, &requester_info)?;
 
-#[account]
-pub struct ItemRecord {
-    pub item_id: String,          // 4 + 64 bytes (max)
-    pub custodian: Pubkey,        // 32 bytes
-    pub depositor: Pubkey,        // 32 bytes
-    pub deposit_ts: i64,          // 8 bytes
-    pub redeemed: bool,           // 1 byte
-    pub metadata: Option<String>, // 1 + 4 + 200 bytes (max)
-    pub redeem_ts: Option<i64>,   // 1 + 8 bytes
-    pub bump: u8,                 // 1 byte
-}
+        let item = &mut ctx.accounts.item;
+        item.redemption_request = None;
 
-impl ItemRecord {
-    pub const SPACE: usize = 8 + 4 + 64 + 32 + 32 + 8 + 1 + 1 + 4 + 200 + 1 + 8 + 1; // discriminator + fields = 364 bytes
-}
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
 
-#[event]
-pub struct ItemDeposited {
-    pub item_account: Pubkey,
-    pub item_id: String,
-    pub depositor: Pubkey,
-    pub custodian: Pubkey,
-}
+        emit!(RedemptionCancelled {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            cancelled_by: authority,
+            refunded_fee,
+            timestamp,
+            seq,
+        });
 
-#[event]
-pub struct ClaimTransferred {
-    pub item_account: Pubkey,
-    pub old_owner: Pubkey,
-    pub new_owner: Pubkey,
-}
+        Ok(())
+    }
 
-#[event]
-pub struct ItemRedeemed {
-    pub item_account: Pubkey,
-    pub item_id: String,
-    pub redeemer: Pubkey,
-    pub custodian: Pubkey,
+    /// Current custodian nominates a successor, who must call `accept_custodian` to take over.
+    pub fn propose_custodian(ctx: Context<ManageVault>, new_custodian: Pubkey) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        vault.pending_custodian = Some(new_custodian);
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(CustodianProposed {
+            vault: vault.key(),
+            custodian: vault.custodian,
+            proposed_custodian: new_custodian,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Proposed custodian takes over the vault. Outstanding items follow automatically, since
+    /// custody checks read the vault's current custodian rather than `ItemRecord.custodian`.
+    pub fn accept_custodian(ctx: Context<AcceptCustodian>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let old_custodian = vault.custodian;
+        vault.custodian = ctx.accounts.new_custodian.key();
+        vault.pending_custodian = None;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(CustodianChanged {
+            vault: vault.key(),
+            old_custodian,
+            new_custodian: vault.custodian,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian authorizes an operator to co-sign deposits and redemptions for the vault.
+    pub fn add_operator(ctx: Context<ManageVault>, operator: Pubkey) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        require!(!vault.operators.contains(&operator), ErrorCode::OperatorAlreadyAdded);
+        require!(
+            vault.operators.len() < VaultAccount::MAX_OPERATORS,
+            ErrorCode::TooManyOperators
+        );
+        vault.operators.push(operator);
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(OperatorAdded {
+            vault: vault.key(),
+            operator,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    pub fn remove_operator(ctx: Context<ManageVault>, operator: Pubkey) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let index = vault
+            .operators
+            .iter()
+            .position(|key| *key == operator)
+            .ok_or(ErrorCode::OperatorNotFound)?;
+        vault.operators.remove(index);
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(OperatorRemoved {
+            vault: vault.key(),
+            operator,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian halts the vault: deposits, claim transfers, redemptions and tokenization are
+    /// rejected until `unpause_vault`.
+    pub fn pause_vault(ctx: Context<ManageVault>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        vault.paused = true;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(VaultPaused {
+            vault: vault.key(),
+            custodian: ctx.accounts.custodian.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    pub fn unpause_vault(ctx: Context<ManageVault>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        vault.paused = false;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(VaultUnpaused {
+            vault: vault.key(),
+            custodian: ctx.accounts.custodian.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Sets the fees charged from now on. Storage accrued by outstanding items is charged at the
+    /// schedule in force when they are redeemed. Custodian-only.
+    pub fn set_fee_schedule(ctx: Context<ManageVault>, fees: FeeSchedule) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        vault.fees = fees;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(FeeScheduleSet {
+            vault: vault.key(),
+            custodian: ctx.accounts.custodian.key(),
+            issuance_fee: fees.issuance_fee,
+            storage_fee_per_year: fees.storage_fee_per_year,
+            redemption_fee: fees.redemption_fee,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Moves collected fees from the vault treasury to `destination`. Custodian-only.
+    pub fn withdraw_fees(ctx: Context<WithdrawFees>, amount: u64) -> Result<()> {
+        let treasury_info = ctx.accounts.treasury.to_account_info();
+        let rent = Rent::get()?.minimum_balance(treasury_info.data_len());
+        require!(
+            amount <= treasury_info.lamports().saturating_sub(rent),
+            ErrorCode::InsufficientFees
+        );
+
+        // The treasury is owned by this program, so lamports can be moved directly.
+        **treasury_info.try_borrow_mut_lamports()? -= amount;
+        **ctx.accounts.destination.try_borrow_mut_lamports()? += amount;
+        ctx.accounts.treasury.fees_withdrawn += amount;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(FeesWithdrawn {
+            vault: ctx.accounts.vault.key(),
+            custodian: ctx.accounts.custodian.key(),
+            destination: ctx.accounts.destination.key(),
+            amount,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian turns allowlist mode on or off and names an optional compliance key that may
+    /// approve and revoke wallets alongside the custodian.
+    pub fn set_allowlist(
+        ctx: Context<ManageVault>,
+        enabled: bool,
+        compliance_authority: Option<Pubkey>,
+    ) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        vault.allowlist_enabled = enabled;
+        vault.compliance_authority = compliance_authority;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(AllowlistConfigured {
+            vault: vault.key(),
+            enabled,
+            compliance_authority,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Approves `wallet` to hold and redeem the vault's claims until `expires_at` (or
+    /// indefinitely). To change an approval, revoke it and approve again.
+    pub fn approve_wallet(
+        ctx: Context<ApproveWallet>,
+        wallet: Pubkey,
+        expires_at: Option<i64>,
+    ) -> Result<()> {
+        let timestamp = Clock::get()?.unix_timestamp;
+        require!(
+            expires_at.map_or(true, |expires_at| expires_at > timestamp),
+            ErrorCode::InvalidExpiry
+        );
+
+        let entry = &mut ctx.accounts.allowlist_entry;
+        entry.vault = ctx.accounts.vault.key();
+        entry.wallet = wallet;
+        entry.approved_by = ctx.accounts.authority.key();
+        entry.approved_ts = timestamp;
+        entry.expires_at = expires_at;
+        entry.bump = ctx.bumps.allowlist_entry;
+
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(WalletApproved {
+            vault: entry.vault,
+            wallet,
+            approved_by: entry.approved_by,
+            expires_at,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Removes a wallet's approval and closes its entry; the rent goes to the signer.
+    pub fn revoke_wallet(ctx: Context<RevokeWallet>) -> Result<()> {
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(WalletRevoked {
+            vault: ctx.accounts.vault.key(),
+            wallet: ctx.accounts.allowlist_entry.wallet,
+            revoked_by: ctx.accounts.authority.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian names the independent auditor allowed to submit attestations, or removes it.
+    /// The latest attestation stays on record either way.
+    pub fn set_auditor(ctx: Context<ManageVault>, auditor: Option<Pubkey>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        vault.auditor = auditor;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(AuditorSet {
+            vault: vault.key(),
+            custodian: ctx.accounts.custodian.key(),
+            auditor,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Auditor records a proof-of-reserves check: how many items were found in the vault and
+    /// the Merkle root of their ids (see `Attestation`). Replaces the previous attestation.
+    /// The count is recorded as found, so a shortfall against `items_outstanding` stays visible.
+    pub fn submit_attestation(
+        ctx: Context<SubmitAttestation>,
+        item_count: u64,
+        merkle_root: [u8; 32],
+    ) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let timestamp = Clock::get()?.unix_timestamp;
+        let attestation = Attestation {
+            auditor: ctx.accounts.auditor.key(),
+            timestamp,
+            item_count,
+            items_outstanding: vault.items_outstanding,
+            merkle_root,
+        };
+        vault.attestation = Some(attestation);
+
+        let seq = vault.next_event_seq();
+
+        emit!(AttestationSubmitted {
+            vault: vault.key(),
+            auditor: attestation.auditor,
+            item_count,
+            items_outstanding: attestation.items_outstanding,
+            merkle_root,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Marks an item as verified by the vault's latest attestation, given the Merkle proof of
+    /// its id. Anyone may submit the proof; the item must predate the attestation.
+    pub fn verify_item(ctx: Context<VerifyItem>, proof: Vec<[u8; 32]>) -> Result<()> {
+        let vault = &mut ctx.accounts.vault;
+        let item = &mut ctx.accounts.item;
+        let attestation = vault.attestation.ok_or(ErrorCode::NoAttestation)?;
+        require!(
+            item.deposit_ts <= attestation.timestamp && attestation.includes(&item.item_id, &proof),
+            ErrorCode::NotInAttestation
+        );
+        item.last_verified_ts = Some(attestation.timestamp);
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(ItemVerified {
+            vault: vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            auditor: attestation.auditor,
+            attested_ts: attestation.timestamp,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian freezes a disputed item until `unfreeze_item`. A claim token is frozen as well,
+    /// since wallet transfers never pass through `transfer_claim`.
+    pub fn freeze_item(ctx: Context<FreezeItem>) -> Result<()> {
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        // The token is already frozen while a redemption request is pending.
+        if let Some(claim_token) = &claim_token {
+            if !claim_token.holder_token_account.is_frozen() {
+                claim_token.freeze(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+            }
+        }
+
+        let item = &mut ctx.accounts.item;
+        item.frozen = true;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ItemFrozen {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            custodian: ctx.accounts.custodian.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    pub fn unfreeze_item(ctx: Context<FreezeItem>) -> Result<()> {
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        // A pending redemption request or an open dispute keeps the token frozen.
+        if let Some(claim_token) = &claim_token {
+            if ctx.accounts.item.redemption_request.is_none()
+                && !ctx.accounts.item.status.is_contested()
+                && claim_token.holder_token_account.is_frozen()
+            {
+                claim_token.thaw(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+            }
+        }
+
+        let item = &mut ctx.accounts.item;
+        item.frozen = false;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ItemUnfrozen {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            custodian: ctx.accounts.custodian.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Holder disputes the custodian's handling of the item, e.g. suspected damage. The claim
+    /// is locked against transfers and redemption until the custodian resolves the dispute or
+    /// declares the item lost.
+    pub fn raise_dispute(ctx: Context<RaiseDispute>, reason: String) -> Result<()> {
+        require!(reason.len() <= ItemRecord::MAX_NOTE_LEN, ErrorCode::NoteTooLong);
+        ctx.accounts.item.status.require_active()?;
+
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let holder = sync_holder(&mut ctx.accounts.item, claim_token.as_ref());
+        require_keys_eq!(holder, ctx.accounts.holder.key(), ErrorCode::NotClaimHolder);
+        if let Some(claim_token) = &claim_token {
+            if !claim_token.holder_token_account.is_frozen() {
+                claim_token.freeze(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+            }
+        }
+
+        let item = &mut ctx.accounts.item;
+        item.status = ItemStatus::Disputed;
+        item.status_note = Some(reason.clone());
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(DisputeRaised {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder,
+            reason,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian declares an active or disputed item lost or destroyed. `note` records what
+    /// happened and how the holder will be compensated; the claim stays locked until
+    /// `compensate_item` or, if the item turns up, `resolve_dispute`.
+    pub fn declare_loss(ctx: Context<ResolveItem>, note: String) -> Result<()> {
+        require!(note.len() <= ItemRecord::MAX_NOTE_LEN, ErrorCode::NoteTooLong);
+        let previous_status = ctx.accounts.item.status;
+        require!(previous_status != ItemStatus::Lost, ErrorCode::ItemLost);
+
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let holder = sync_holder(&mut ctx.accounts.item, claim_token.as_ref());
+        if let Some(claim_token) = &claim_token {
+            if !claim_token.holder_token_account.is_frozen() {
+                claim_token.freeze(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+            }
+        }
+
+        let item = &mut ctx.accounts.item;
+        item.status = ItemStatus::Lost;
+        item.status_note = Some(note.clone());
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ItemDeclaredLost {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder,
+            custodian: ctx.accounts.custodian.key(),
+            previous_status,
+            note,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian settles a dispute, or withdraws a loss declaration once the item is found,
+    /// and returns the item to `Active`.
+    pub fn resolve_dispute(ctx: Context<ResolveItem>, note: String) -> Result<()> {
+        require!(note.len() <= ItemRecord::MAX_NOTE_LEN, ErrorCode::NoteTooLong);
+        let previous_status = ctx.accounts.item.status;
+        require!(previous_status.is_contested(), ErrorCode::NotContested);
+
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        // A freeze or a pending redemption request keeps the token frozen.
+        if let Some(claim_token) = &claim_token {
+            if !ctx.accounts.item.frozen
+                && ctx.accounts.item.redemption_request.is_none()
+                && claim_token.holder_token_account.is_frozen()
+            {
+                claim_token.thaw(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+            }
+        }
+
+        let item = &mut ctx.accounts.item;
+        item.status = ItemStatus::Active;
+        item.status_note = Some(note.clone());
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(DisputeResolved {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            custodian: ctx.accounts.custodian.key(),
+            previous_status,
+            note,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian records that the holder of a lost item has been compensated off-chain, as
+    /// described by `note`. This retires the claim: a claim token is burned, and the vault
+    /// counts the item as compensated instead of redeemed.
+    pub fn compensate_item(ctx: Context<ResolveItem>, note: String) -> Result<()> {
+        require!(note.len() <= ItemRecord::MAX_NOTE_LEN, ErrorCode::NoteTooLong);
+        require!(ctx.accounts.item.status == ItemStatus::Lost, ErrorCode::NotLost);
+        // A pending request holds the redemption fee; cancelling it refunds the requester.
+        require!(
+            ctx.accounts.item.redemption_request.is_none(),
+            ErrorCode::RedemptionPending
+        );
+
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let holder = sync_holder(&mut ctx.accounts.item, claim_token.as_ref());
+        if let Some(claim_token) = &claim_token {
+            claim_token.burn(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+        }
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let item = &mut ctx.accounts.item;
+        item.status = ItemStatus::Compensated;
+        item.status_note = Some(note.clone());
+        item.redeem_ts = Some(timestamp);
+        item.redeem_delegate = None;
+        item.listing = None;
+        item.pledge = None;
+
+        let vault = &mut ctx.accounts.vault;
+        vault.items_outstanding -= 1;
+        vault.items_compensated += 1;
+        let seq = vault.next_event_seq();
+
+        emit!(ItemCompensated {
+            vault: vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder,
+            custodian: ctx.accounts.custodian.key(),
+            note,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Mints a 1-of-1 Token-2022 claim token for the item to its current holder. From then on
+    /// ownership of the token, not `transfer_claim`, decides who holds the claim.
+    pub fn tokenize_claim(ctx: Context<TokenizeClaim>, name: String, symbol: String) -> Result<()> {
+        // Claim tokens move outside `transfer_claim`, so they only exist once transfers are open.
+        ctx.accounts
+            .item
+            .time_locks
+            .check_transfer(Clock::get()?.unix_timestamp)?;
+        require!(
+            name.as_bytes().len() <= 32 && symbol.as_bytes().len() <= 10,
+            ErrorCode::TokenMetadataTooLong
+        );
+        let uri = ctx.accounts.item.metadata.clone().unwrap_or_default();
+
+        // Token-2022 reallocs the mint when the metadata is written, so fund those bytes first.
+        let mint_info = ctx.accounts.claim_mint.to_account_info();
+        let required_lamports = Rent::get()?
+            .minimum_balance(mint_info.data_len() + token_metadata_len(&name, &symbol, &uri));
+        let shortfall = required_lamports.saturating_sub(mint_info.lamports());
+        if shortfall > 0 {
+            system_program::transfer(
+                CpiContext::new(
+                    ctx.accounts.system_program.to_account_info(),
+                    system_program::Transfer {
+                        from: ctx.accounts.holder.to_account_info(),
+                        to: mint_info.clone(),
+                    },
+                ),
+                shortfall,
+            )?;
+        }
+
+        let vault_key = ctx.accounts.vault.key();
+        let id_hash = ctx.accounts.item.id_hash;
+        let bump = [ctx.accounts.item.bump];
+        let signer_seeds: &[&[&[u8]]] = &[&[b"item", vault_key.as_ref(), &id_hash, &bump]];
+        let item_info = ctx.accounts.item.to_account_info();
+        let token_program = ctx.accounts.token_program.to_account_info();
+
+        token_interface::token_metadata_initialize(
+            CpiContext::new_with_signer(
+                token_program.clone(),
+                TokenMetadataInitialize {
+                    program_id: token_program.clone(),
+                    mint: mint_info.clone(),
+                    metadata: mint_info.clone(),
+                    mint_authority: item_info.clone(),
+                    update_authority: item_info.clone(),
+                },
+                signer_seeds,
+            ),
+            name,
+            symbol,
+            uri,
+        )?;
+
+        token_interface::mint_to(
+            CpiContext::new_with_signer(
+                token_program.clone(),
+                MintTo {
+                    mint: mint_info.clone(),
+                    to: ctx.accounts.holder_token_account.to_account_info(),
+                    authority: item_info.clone(),
+                },
+                signer_seeds,
+            ),
+            1,
+        )?;
+
+        // Fix the supply at one; the item PDA keeps freeze authority and permanent delegation.
+        token_interface::set_authority(
+            CpiContext::new_with_signer(
+                token_program,
+                SetAuthority {
+                    current_authority: item_info,
+                    account_or_mint: mint_info,
+                },
+                signer_seeds,
+            ),
+            AuthorityType::MintTokens,
+            None,
+        )?;
+
+        let item = &mut ctx.accounts.item;
+        item.claim_mint = Some(ctx.accounts.claim_mint.key());
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ClaimTokenized {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            mint: ctx.accounts.claim_mint.key(),
+            holder: ctx.accounts.holder.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Corrects or re-certifies an item's off-chain metadata. Custodian-only; a tokenized item's
+    /// token URI is rewritten to match.
+    pub fn update_metadata(
+        ctx: Context<UpdateMetadata>,
+        metadata_uri: Option<String>,
+        metadata_hash: Option<[u8; 32]>,
+    ) -> Result<()> {
+        require!(
+            ItemRecord::metadata_fits(&metadata_uri),
+            ErrorCode::MetadataTooLong
+        );
+
+        if let Some(claim_mint) = ctx.accounts.item.claim_mint {
+            let (Some(mint), Some(token_program)) =
+                (&ctx.accounts.claim_mint, &ctx.accounts.token_program)
+            else {
+                return err!(ErrorCode::MissingClaimToken);
+            };
+            require_keys_eq!(mint.key(), claim_mint, ErrorCode::InvalidClaimToken);
+
+            let old_uri = ctx.accounts.item.metadata.clone().unwrap_or_default();
+            let new_uri = metadata_uri.clone().unwrap_or_default();
+
+            // A longer URI grows the mint, so fund the extra bytes first.
+            let mint_info = mint.to_account_info();
+            let new_len = (mint_info.data_len() + new_uri.len()).saturating_sub(old_uri.len());
+            let shortfall = Rent::get()?
+                .minimum_balance(new_len)
+                .saturating_sub(mint_info.lamports());
+            if shortfall > 0 {
+                system_program::transfer(
+                    CpiContext::new(
+                        ctx.accounts.system_program.to_account_info(),
+                        system_program::Transfer {
+                            from: ctx.accounts.custodian.to_account_info(),
+                            to: mint_info.clone(),
+                        },
+                    ),
+                    shortfall,
+                )?;
+            }
+
+            let vault_key = ctx.accounts.vault.key();
+            let item = &ctx.accounts.item;
+            let bump = [item.bump];
+            let signer_seeds: &[&[&[u8]]] =
+                &[&[b"item", vault_key.as_ref(), &item.id_hash, &bump]];
+            token_interface::token_metadata_update_field(
+                CpiContext::new_with_signer(
+                    token_program.to_account_info(),
+                    TokenMetadataUpdateField {
+                        program_id: token_program.to_account_info(),
+                        metadata: mint_info,
+                        update_authority: item.to_account_info(),
+                    },
+                    signer_seeds,
+                ),
+                Field::Uri,
+                new_uri,
+            )?;
+        }
+
+        let item = &mut ctx.accounts.item;
+        let old_metadata = std::mem::replace(&mut item.metadata, metadata_uri);
+        let old_metadata_hash = std::mem::replace(&mut item.metadata_hash, metadata_hash);
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(MetadataUpdated {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            custodian: ctx.accounts.custodian.key(),
+            old_metadata,
+            new_metadata: item.metadata.clone(),
+            old_metadata_hash,
+            new_metadata_hash: item.metadata_hash,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Offers the claim for sale at `price`, in lamports or, with `payment_mint`, in base units
+    /// of that SPL token. Listing again replaces the terms. Signed by the holder.
+    pub fn list_claim(
+        ctx: Context<ListClaim>,
+        price: u64,
+        payment_mint: Option<Pubkey>,
+    ) -> Result<()> {
+        require!(price > 0, ErrorCode::InvalidPrice);
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let item = &mut ctx.accounts.item;
+        item.listing = Some(Listing {
+            seller: ctx.accounts.seller.key(),
+            price,
+            payment_mint,
+            listed_ts: timestamp,
+        });
+
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ClaimListed {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            seller: ctx.accounts.seller.key(),
+            price,
+            payment_mint,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Pays the seller and takes over the claim in one instruction. `price` and `payment_mint`
+    /// must repeat the listing's terms so a buyer never pays more than they agreed to.
+    pub fn buy_claim(
+        ctx: Context<BuyClaim>,
+        price: u64,
+        payment_mint: Option<Pubkey>,
+    ) -> Result<()> {
+        let listing = ctx.accounts.item.listing.ok_or(ErrorCode::NotListed)?;
+        require!(
+            listing.price == price && listing.payment_mint == payment_mint,
+            ErrorCode::ListingChanged
+        );
+        let timestamp = Clock::get()?.unix_timestamp;
+        ctx.accounts.item.time_locks.check_transfer(timestamp)?;
+        require_allowlisted(
+            &ctx.accounts.vault,
+            &ctx.accounts.allowlist_entry,
+            &ctx.accounts.buyer.key(),
+            timestamp,
+        )?;
+
+        match listing.payment_mint {
+            None => system_program::transfer(
+                CpiContext::new(
+                    ctx.accounts.system_program.to_account_info(),
+                    system_program::Transfer {
+                        from: ctx.accounts.buyer.to_account_info(),
+                        to: ctx.accounts.seller.to_account_info(),
+                    },
+                ),
+                listing.price,
+            )?,
+            Some(payment_mint) => {
+                let (
+                    Some(mint),
+                    Some(buyer_payment_account),
+                    Some(seller_payment_account),
+                    Some(token_program),
+                ) = (
+                    &ctx.accounts.payment_mint,
+                    &ctx.accounts.buyer_payment_account,
+                    &ctx.accounts.seller_payment_account,
+                    &ctx.accounts.payment_token_program,
+                )
+                else {
+                    return err!(ErrorCode::MissingPaymentAccount);
+                };
+                require_keys_eq!(mint.key(), payment_mint, ErrorCode::InvalidPaymentAccount);
+                require_keys_eq!(
+                    seller_payment_account.owner,
+                    listing.seller,
+                    ErrorCode::InvalidPaymentAccount
+                );
+
+                token_interface::transfer_checked(
+                    CpiContext::new(
+                        token_program.to_account_info(),
+                        TransferChecked {
+                            from: buyer_payment_account.to_account_info(),
+                            mint: mint.to_account_info(),
+                            to: seller_payment_account.to_account_info(),
+                            authority: ctx.accounts.buyer.to_account_info(),
+                        },
+                    ),
+                    listing.price,
+                    mint.decimals,
+                )?;
+            }
+        }
+
+        let item = &mut ctx.accounts.item;
+        item.depositor = ctx.accounts.buyer.key();
+        // Neither the seller's delegate nor their listing carries over.
+        item.redeem_delegate = None;
+        item.listing = None;
+
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ClaimSold {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            seller: listing.seller,
+            buyer: ctx.accounts.buyer.key(),
+            price: listing.price,
+            payment_mint: listing.payment_mint,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Withdraws a listing. Signed by the seller.
+    pub fn delist_claim(ctx: Context<DelistClaim>) -> Result<()> {
+        let item = &mut ctx.accounts.item;
+        item.listing = None;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ClaimDelisted {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            seller: ctx.accounts.seller.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Holder pledges the claim as collateral to `lienholder`, typically a lending program's loan
+    /// PDA. Until the pledge ends the claim cannot be transferred, sold or redeemed; the
+    /// lienholder either releases it or, from `deadline` on, forecloses and takes the claim.
+    pub fn pledge_claim(
+        ctx: Context<PledgeClaim>,
+        lienholder: Pubkey,
+        deadline: i64,
+    ) -> Result<()> {
+        let timestamp = Clock::get()?.unix_timestamp;
+        let item = &mut ctx.accounts.item;
+        // Foreclosure is a transfer, so it must be possible before the claim expires.
+        item.time_locks.check_transfer(timestamp)?;
+        require!(
+            deadline > timestamp
+                && item
+                    .time_locks
+                    .expires_at
+                    .map_or(true, |expires_at| deadline < expires_at),
+            ErrorCode::InvalidPledgeDeadline
+        );
+
+        item.pledge = Some(Pledge {
+            lienholder,
+            deadline,
+            pledged_ts: timestamp,
+        });
+
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ClaimPledged {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder: item.depositor,
+            lienholder,
+            deadline,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Lienholder lifts the pledge, e.g. once the loan is repaid. Allowed at any time.
+    pub fn release_pledge(ctx: Context<ReleasePledge>) -> Result<()> {
+        let item = &mut ctx.accounts.item;
+        item.pledge = None;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(PledgeReleased {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder: item.depositor,
+            lienholder: ctx.accounts.lienholder.key(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Lienholder takes the claim once the pledge deadline has passed without a release. Subject
+    /// to the same time locks and allowlist as `transfer_claim`.
+    pub fn foreclose(ctx: Context<Foreclose>) -> Result<()> {
+        let timestamp = Clock::get()?.unix_timestamp;
+        let lienholder = ctx.accounts.lienholder.key();
+        let pledge = ctx.accounts.item.pledge.ok_or(ErrorCode::NotPledged)?;
+        require!(timestamp >= pledge.deadline, ErrorCode::PledgeNotDue);
+        ctx.accounts.item.time_locks.check_transfer(timestamp)?;
+        require_allowlisted(
+            &ctx.accounts.vault,
+            &ctx.accounts.allowlist_entry,
+            &lienholder,
+            timestamp,
+        )?;
+
+        let item = &mut ctx.accounts.item;
+        let previous_holder = item.depositor;
+        item.depositor = lienholder;
+        item.redeem_delegate = None;
+        item.pledge = None;
+
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ClaimForeclosed {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            previous_holder,
+            lienholder,
+            deadline: pledge.deadline,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Splits the claim into `shares` fungible Token-2022 shares (PDA `["share_mint", item]`),
+    /// all minted to the holder. Shares move with ordinary token transfers; the claim itself is
+    /// locked until one wallet recombines every share or the custodian buys the item out at no
+    /// less than `buyout_floor` lamports per share (0 leaves the price to the custodian).
+    pub fn fractionalize(
+        ctx: Context<Fractionalize>,
+        shares: u64,
+        buyout_floor: u64,
+    ) -> Result<()> {
+        require!(shares > 0, ErrorCode::InvalidShareCount);
+        ctx.accounts
+            .item
+            .time_locks
+            .check_transfer(Clock::get()?.unix_timestamp)?;
+
+        let vault_key = ctx.accounts.vault.key();
+        let id_hash = ctx.accounts.item.id_hash;
+        let bump = [ctx.accounts.item.bump];
+        let signer_seeds: &[&[&[u8]]] = &[&[b"item", vault_key.as_ref(), &id_hash, &bump]];
+        let item_info = ctx.accounts.item.to_account_info();
+        let mint_info = ctx.accounts.share_mint.to_account_info();
+        let token_program = ctx.accounts.token_program.to_account_info();
+
+        token_interface::mint_to(
+            CpiContext::new_with_signer(
+                token_program.clone(),
+                MintTo {
+                    mint: mint_info.clone(),
+                    to: ctx.accounts.holder_share_account.to_account_info(),
+                    authority: item_info.clone(),
+                },
+                signer_seeds,
+            ),
+            shares,
+        )?;
+
+        // Fix the supply; shares only ever leave circulation by being burned.
+        token_interface::set_authority(
+            CpiContext::new_with_signer(
+                token_program,
+                SetAuthority {
+                    current_authority: item_info,
+                    account_or_mint: mint_info,
+                },
+                signer_seeds,
+            ),
+            AuthorityType::MintTokens,
+            None,
+        )?;
+
+        let item = &mut ctx.accounts.item;
+        item.fractions = Some(Fractions {
+            mint: ctx.accounts.share_mint.key(),
+            supply: shares,
+            buyout_price: None,
+        });
+        item.buyout_floor = buyout_floor;
+        item.redeem_delegate = None;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ItemFractionalized {
+            vault: vault_key,
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder: ctx.accounts.holder.key(),
+            share_mint: ctx.accounts.share_mint.key(),
+            shares,
+            buyout_floor,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Burns every share of a fractionalized item from one wallet, which becomes the sole
+    /// claim holder again.
+    pub fn recombine(ctx: Context<Recombine>) -> Result<()> {
+        let supply = ctx.accounts.share_mint.supply;
+        require!(
+            ctx.accounts.holder_share_account.amount == supply,
+            ErrorCode::IncompleteShares
+        );
+        let timestamp = Clock::get()?.unix_timestamp;
+        require_allowlisted(
+            &ctx.accounts.vault,
+            &ctx.accounts.allowlist_entry,
+            &ctx.accounts.holder.key(),
+            timestamp,
+        )?;
+
+        token_interface::burn(
+            CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                Burn {
+                    mint: ctx.accounts.share_mint.to_account_info(),
+                    from: ctx.accounts.holder_share_account.to_account_info(),
+                    authority: ctx.accounts.holder.to_account_info(),
+                },
+            ),
+            supply,
+        )?;
+
+        let item = &mut ctx.accounts.item;
+        item.depositor = ctx.accounts.holder.key();
+        item.fractions = None;
+        item.buyout_floor = 0;
+
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(ItemRecombined {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder: ctx.accounts.holder.key(),
+            shares: supply,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian buys a fractionalized item out at `price_per_share` lamports, no less than the
+    /// floor the holder set when fractionalizing. The full price is escrowed in the item
+    /// account, the item is marked redeemed, and each share holder collects their part with
+    /// `claim_buyout`.
+    pub fn start_buyout(ctx: Context<StartBuyout>, price_per_share: u64) -> Result<()> {
+        require!(price_per_share > 0, ErrorCode::InvalidPrice);
+        require!(
+            price_per_share >= ctx.accounts.item.buyout_floor,
+            ErrorCode::BuyoutBelowFloor
+        );
+        let shares = ctx.accounts.share_mint.supply;
+        let total = price_per_share
+            .checked_mul(shares)
+            .ok_or(ErrorCode::InvalidPrice)?;
+
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.custodian.to_account_info(),
+                    to: ctx.accounts.item.to_account_info(),
+                },
+            ),
+            total,
+        )?;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let item = &mut ctx.accounts.item;
+        item.fractions = Some(Fractions {
+            mint: ctx.accounts.share_mint.key(),
+            supply: shares,
+            buyout_price: Some(price_per_share),
+        });
+        item.status = ItemStatus::Redeemed;
+        item.redeem_ts = Some(timestamp);
+        item.depositor = ctx.accounts.custodian.key();
+
+        let vault = &mut ctx.accounts.vault;
+        vault.record_redemption();
+        let seq = vault.next_event_seq();
+
+        emit!(BuyoutStarted {
+            vault: vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            custodian: ctx.accounts.custodian.key(),
+            price_per_share,
+            shares,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Burns the signer's shares of a bought-out item and pays them out of the escrow.
+    pub fn claim_buyout(ctx: Context<ClaimBuyout>) -> Result<()> {
+        let fractions = ctx.accounts.item.fractions.ok_or(ErrorCode::NotFractionalized)?;
+        let price_per_share = fractions.buyout_price.ok_or(ErrorCode::NoBuyout)?;
+        let shares = ctx.accounts.holder_share_account.amount;
+        require!(shares > 0, ErrorCode::IncompleteShares);
+
+        token_interface::burn(
+            CpiContext::new(
+                ctx.accounts.token_program.to_account_info(),
+                Burn {
+                    mint: ctx.accounts.share_mint.to_account_info(),
+                    from: ctx.accounts.holder_share_account.to_account_info(),
+                    authority: ctx.accounts.holder.to_account_info(),
+                },
+            ),
+            shares,
+        )?;
+
+        // The escrow sits in the item account, which this program owns.
+        let amount = price_per_share * shares;
+        **ctx.accounts.item.to_account_info().try_borrow_mut_lamports()? -= amount;
+        **ctx.accounts.holder.try_borrow_mut_lamports()? += amount;
+
+        let item = &mut ctx.accounts.item;
+        item.fractions = Some(Fractions {
+            supply: fractions.supply - shares,
+            ..fractions
+        });
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(BuyoutClaimed {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder: ctx.accounts.holder.key(),
+            shares,
+            amount,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Returns the escrow still held for unclaimed shares to the custodian who started the
+    /// buyout, once no share is left in circulation (e.g. shares burned outside `claim_buyout`)
+    /// or `Fractions::CLAIM_PERIOD` after the buyout. Shares left after that can no longer be
+    /// claimed, and the item record can be closed.
+    pub fn sweep_buyout(ctx: Context<SweepBuyout>) -> Result<()> {
+        let fractions = ctx.accounts.item.fractions.ok_or(ErrorCode::NotFractionalized)?;
+        let price_per_share = fractions.buyout_price.ok_or(ErrorCode::NoBuyout)?;
+        let timestamp = Clock::get()?.unix_timestamp;
+        let claim_period_over = ctx
+            .accounts
+            .item
+            .redeem_ts
+            .map_or(false, |started| timestamp >= started + Fractions::CLAIM_PERIOD);
+        require!(
+            ctx.accounts.share_mint.supply == 0 || claim_period_over,
+            ErrorCode::BuyoutClaimOpen
+        );
+
+        // Every share `claim_buyout` has not paid for, burned elsewhere or not.
+        let shares = fractions.supply;
+        let amount = price_per_share * shares;
+        **ctx.accounts.item.to_account_info().try_borrow_mut_lamports()? -= amount;
+        **ctx.accounts.custodian.try_borrow_mut_lamports()? += amount;
+
+        let item = &mut ctx.accounts.item;
+        item.fractions = None;
+        item.buyout_floor = 0;
+
+        let seq = ctx.accounts.vault.next_event_seq();
+
+        emit!(BuyoutSwept {
+            vault: ctx.accounts.vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            custodian: ctx.accounts.custodian.key(),
+            shares,
+            amount,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Custodian retires a claim whose `expires_at` has passed. The item counts as expired
+    /// instead of redeemed, and a claim token is burned.
+    pub fn expire_item(ctx: Context<ExpireItem>) -> Result<()> {
+        let timestamp = Clock::get()?.unix_timestamp;
+        require!(
+            ctx.accounts.item.time_locks.is_expired(timestamp),
+            ErrorCode::NotExpired
+        );
+
+        let claim_token = ClaimToken::resolve(
+            &ctx.accounts.item,
+            &ctx.accounts.claim_mint,
+            &ctx.accounts.holder_token_account,
+            &ctx.accounts.token_program,
+        )?;
+        let holder = sync_holder(&mut ctx.accounts.item, claim_token.as_ref());
+        if let Some(claim_token) = &claim_token {
+            claim_token.burn(&ctx.accounts.item, &ctx.accounts.vault.key())?;
+        }
+
+        // Expired items are retired like redeemed ones, so they can be closed afterwards.
+        let item = &mut ctx.accounts.item;
+        item.status = ItemStatus::Expired;
+        item.redeem_ts = Some(timestamp);
+        item.redeem_delegate = None;
+        item.listing = None;
+        item.pledge = None;
+
+        let vault = &mut ctx.accounts.vault;
+        vault.items_outstanding -= 1;
+        vault.items_expired += 1;
+        let seq = vault.next_event_seq();
+
+        emit!(ItemExpired {
+            vault: vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            holder,
+            custodian: ctx.accounts.custodian.key(),
+            expires_at: item.time_locks.expires_at.unwrap_or_default(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Archives a redeemed item: emits its final state and returns the account's rent to the
+    /// wallet that paid for it. Signed by the custodian, an operator or the rent payer.
+    pub fn close_item(ctx: Context<CloseItem>) -> Result<()> {
+        let item = &ctx.accounts.item;
+        let vault = &mut ctx.accounts.vault;
+        vault.open_records -= 1;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(ItemClosed {
+            vault: vault.key(),
+            item_account: item.key(),
+            item_id: item.item_id.clone(),
+            index: item.index,
+            custodian: item.custodian,
+            holder: item.depositor,
+            deposit_ts: item.deposit_ts,
+            redeem_ts: item.redeem_ts,
+            metadata: item.metadata.clone(),
+            metadata_hash: item.metadata_hash,
+            claim_mint: item.claim_mint,
+            rent_payer: item.rent_payer,
+            status: item.status,
+            status_note: item.status_note.clone(),
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Closes a vault with no item records left and returns its rent to the creator.
+    pub fn close_vault(ctx: Context<CloseVault>) -> Result<()> {
+        // Unwithdrawn fees go to the custodian; the treasury's rent goes back to the creator.
+        let treasury_info = ctx.accounts.treasury.to_account_info();
+        let rent = Rent::get()?.minimum_balance(treasury_info.data_len());
+        let fees = treasury_info.lamports().saturating_sub(rent);
+        **treasury_info.try_borrow_mut_lamports()? -= fees;
+        **ctx.accounts.custodian.try_borrow_mut_lamports()? += fees;
+
+        let vault = &mut ctx.accounts.vault;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(VaultClosed {
+            vault: vault.key(),
+            custodian: vault.custodian,
+            vault_name: vault.vault_name.clone(),
+            items_issued: vault.items_issued,
+            items_redeemed: vault.items_redeemed,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Moves a vault created before layout versioning to its address under hashed seeds, in the
+    /// current layout, with a new treasury. Anyone may migrate: `payer` funds the new accounts, and
+    /// the old account is closed with its rent returned to the custodian who paid it.
+    pub fn migrate_vault(ctx: Context<MigrateVault>, vault_name: String) -> Result<()> {
+        let legacy_info = ctx.accounts.legacy_vault.to_account_info();
+        let version = VaultAccount::stored_version(&legacy_info.try_borrow_data()?);
+        require!(version == 0, ErrorCode::AlreadyMigrated);
+        let legacy = VaultAccountV0::load(&legacy_info)?;
+
+        // The seeds check `#[account(seeds = ...)]` would do, which needs the decoded vault.
+        require!(
+            legacy.vault_name == vault_name,
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        require_keys_eq!(
+            legacy.address()?,
+            legacy_info.key(),
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        require_keys_eq!(
+            legacy.custodian,
+            ctx.accounts.custodian.key(),
+            ErrorCode::NotCustodian
+        );
+
+        let vault = &mut ctx.accounts.vault;
+        vault.custodian = legacy.custodian;
+        vault.version = VaultAccount::VERSION;
+        vault.name_hash = identifier_seed(&legacy.vault_name);
+        vault.vault_name = legacy.vault_name;
+        vault.creator = legacy.custodian;
+        vault.pending_custodian = None;
+        vault.operators = Vec::new();
+        vault.paused = false;
+        vault.event_seq = 0;
+        vault.items_issued = 0;
+        vault.items_outstanding = 0;
+        vault.items_redeemed = 0;
+        vault.open_records = 0;
+        vault.fees = FeeSchedule::default();
+        vault.bump = ctx.bumps.vault;
+
+        let treasury = &mut ctx.accounts.treasury;
+        treasury.vault = vault.key();
+        treasury.fees_collected = 0;
+        treasury.fees_withdrawn = 0;
+        treasury.bump = ctx.bumps.treasury;
+
+        close_legacy(&legacy_info, &ctx.accounts.custodian)?;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(VaultMigrated {
+            vault: vault.key(),
+            legacy_vault: legacy_info.key(),
+            custodian: vault.custodian,
+            from_version: version,
+            to_version: VaultAccount::VERSION,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Moves an item record created before layout versioning to its address under hashed seeds,
+    /// in the current layout. Its vault has to be migrated first; the item takes the next index
+    /// and counts toward the vault's totals from here on. As with `migrate_vault`, `payer` funds
+    /// the new record; the old one's rent goes back to the depositor, who also becomes the record's
+    /// `rent_payer`, as if they had deposited it under the current program.
+    pub fn migrate_item(ctx: Context<MigrateItem>, item_id: String) -> Result<()> {
+        let legacy_info = ctx.accounts.legacy_item.to_account_info();
+        let version = ItemRecord::stored_version(&legacy_info.try_borrow_data()?);
+        require!(version == 0, ErrorCode::AlreadyMigrated);
+        let legacy = ItemRecordV0::load(&legacy_info)?;
+
+        // The old record lives under the vault's old address, derived from the raw name bytes.
+        let vault = &mut ctx.accounts.vault;
+        let legacy_vault = Pubkey::try_find_program_address(
+            &[b"vault", vault.creator.as_ref(), vault.vault_name.as_bytes()],
+            &crate::ID,
+        )
+        .ok_or_else(|| error!(anchor_lang::error::ErrorCode::ConstraintSeeds))?
+        .0;
+        require!(
+            legacy.item_id == item_id,
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        require_keys_eq!(
+            legacy.address(&legacy_vault)?,
+            legacy_info.key(),
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        require_keys_eq!(
+            legacy.depositor,
+            ctx.accounts.depositor.key(),
+            ErrorCode::InvalidRentPayer
+        );
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let item = &mut ctx.accounts.item;
+        item.vault = vault.key();
+        item.index = vault.items_issued;
+        item.version = ItemRecord::VERSION;
+        item.id_hash = identifier_seed(&legacy.item_id);
+        item.item_id = legacy.item_id;
+        item.custodian = legacy.custodian;
+        item.depositor = legacy.depositor;
+        item.deposit_ts = legacy.deposit_ts;
+        item.status = if legacy.redeemed {
+            ItemStatus::Redeemed
+        } else {
+            ItemStatus::Active
+        };
+        item.metadata = legacy.metadata;
+        item.metadata_hash = None;
+        item.redeem_ts = legacy.redeem_ts;
+        item.redeem_delegate = None;
+        item.redemption_request = None;
+        item.claim_mint = None;
+        item.frozen = false;
+        item.rent_payer = legacy.depositor;
+        item.listing = None;
+        // Storage fees did not exist before; they accrue from the migration on.
+        item.storage_paid_ts = timestamp;
+        item.fractions = None;
+        item.time_locks = TimeLocks::default();
+        item.last_verified_ts = None;
+        item.status_note = None;
+        item.pledge = None;
+        item.bump = ctx.bumps.item;
+
+        vault.items_issued += 1;
+        vault.open_records += 1;
+        if legacy.redeemed {
+            vault.items_redeemed += 1;
+        } else {
+            vault.items_outstanding += 1;
+        }
+
+        close_legacy(&legacy_info, &ctx.accounts.depositor)?;
+
+        let seq = vault.next_event_seq();
+
+        emit!(ItemMigrated {
+            vault: vault.key(),
+            item_account: item.key(),
+            legacy_item: legacy_info.key(),
+            item_id: item.item_id.clone(),
+            index: item.index,
+            from_version: version,
+            to_version: ItemRecord::VERSION,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Closes a vault from before layout versioning in place, returning its rent to the creator.
+    /// For an old vault that cannot be migrated because its name normalizes to the same address
+    /// as one already migrated (e.g. "Main" and "main"); `vault` is that migrated vault and
+    /// `vault_name` the old vault's raw name. Its items are closed with `close_legacy_item`.
+    pub fn close_legacy_vault(ctx: Context<CloseLegacyVault>, vault_name: String) -> Result<()> {
+        let legacy_info = ctx.accounts.legacy_vault.to_account_info();
+        let version = VaultAccount::stored_version(&legacy_info.try_borrow_data()?);
+        require!(version == 0, ErrorCode::AlreadyMigrated);
+        let legacy = VaultAccountV0::load(&legacy_info)?;
+
+        let vault = &mut ctx.accounts.vault;
+        require!(
+            legacy.vault_name == vault_name && identifier_seed(&vault_name) == vault.name_hash,
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        require_keys_eq!(
+            legacy.address()?,
+            legacy_info.key(),
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        require_keys_eq!(
+            legacy.custodian,
+            vault.creator,
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+
+        close_legacy(&legacy_info, &ctx.accounts.creator)?;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(LegacyVaultClosed {
+            vault: vault.key(),
+            legacy_vault: legacy_info.key(),
+            vault_name,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+
+    /// Closes an item record from before layout versioning in place, returning its rent to the
+    /// depositor. For an old item that cannot be migrated because its id normalizes to the same
+    /// address as another item's, or because its vault was closed with `close_legacy_vault`.
+    /// `vault_name` is the raw name of its old vault. The depositor co-signs: an item not yet
+    /// redeemed is handed back to them by this close.
+    pub fn close_legacy_item(
+        ctx: Context<CloseLegacyItem>,
+        vault_name: String,
+        item_id: String,
+    ) -> Result<()> {
+        let legacy_info = ctx.accounts.legacy_item.to_account_info();
+        let version = ItemRecord::stored_version(&legacy_info.try_borrow_data()?);
+        require!(version == 0, ErrorCode::AlreadyMigrated);
+        let legacy = ItemRecordV0::load(&legacy_info)?;
+
+        let vault = &mut ctx.accounts.vault;
+        require!(
+            identifier_seed(&vault_name) == vault.name_hash && legacy.item_id == item_id,
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        let legacy_vault = Pubkey::try_find_program_address(
+            &[b"vault", vault.creator.as_ref(), vault_name.as_bytes()],
+            &crate::ID,
+        )
+        .ok_or_else(|| error!(anchor_lang::error::ErrorCode::ConstraintSeeds))?
+        .0;
+        require_keys_eq!(
+            legacy.address(&legacy_vault)?,
+            legacy_info.key(),
+            anchor_lang::error::ErrorCode::ConstraintSeeds
+        );
+        require_keys_eq!(
+            legacy.depositor,
+            ctx.accounts.depositor.key(),
+            ErrorCode::UnauthorizedRedeemer
+        );
+
+        close_legacy(&legacy_info, &ctx.accounts.depositor)?;
+
+        let timestamp = Clock::get()?.unix_timestamp;
+        let seq = vault.next_event_seq();
+
+        emit!(LegacyItemClosed {
+            vault: vault.key(),
+            legacy_item: legacy_info.key(),
+            item_id,
+            depositor: legacy.depositor,
+            released: !legacy.redeemed,
+            timestamp,
+            seq,
+        });
+
+        Ok(())
+    }
+}
+
+/// Claim-token accounts passed to an instruction acting on a tokenized item.
+pub struct ClaimToken<'a, 'info> {
+    pub mint: &'a InterfaceAccount<'info, Mint>,
+    pub holder_token_account: &'a InterfaceAccount<'info, TokenAccount>,
+    pub token_program: &'a Interface<'info, TokenInterface>,
+}
+
+impl<'a, 'info> ClaimToken<'a, 'info> {
+    /// Returns `None` for items that were never tokenized. For tokenized items the optional
+    /// accounts become mandatory and must hold the item's one claim token.
+    pub fn resolve(
+        item: &ItemRecord,
+        mint: &'a Option<InterfaceAccount<'info, Mint>>,
+        holder_token_account: &'a Option<InterfaceAccount<'info, TokenAccount>>,
+        token_program: &'a Option<Interface<'info, TokenInterface>>,
+    ) -> Result<Option<Self>> {
+        let Some(claim_mint) = item.claim_mint else {
+            return Ok(None);
+        };
+        let (Some(mint), Some(holder_token_account), Some(token_program)) =
+            (mint, holder_token_account, token_program)
+        else {
+            return err!(ErrorCode::MissingClaimToken);
+        };
+
+        require_keys_eq!(mint.key(), claim_mint, ErrorCode::InvalidClaimToken);
+        require_keys_eq!(holder_token_account.mint, claim_mint, ErrorCode::InvalidClaimToken);
+        require!(holder_token_account.amount == 1, ErrorCode::InvalidClaimToken);
+
+        Ok(Some(Self {
+            mint,
+            holder_token_account,
+            token_program,
+        }))
+    }
+
+    /// Burns the claim token through the item PDA's permanent delegation, thawing it first if
+    /// a redemption request froze it.
+    pub fn burn(&self, item: &Account<'info, ItemRecord>, vault: &Pubkey) -> Result<()> {
+        if self.holder_token_account.is_frozen() {
+            self.thaw(item, vault)?;
+        }
+
+        let bump = [item.bump];
+        let signer_seeds: &[&[&[u8]]] = &[&[b"item", vault.as_ref(), &item.id_hash, &bump]];
+        token_interface::burn(
+            CpiContext::new_with_signer(
+                self.token_program.to_account_info(),
+                Burn {
+                    mint: self.mint.to_account_info(),
+                    from: self.holder_token_account.to_account_info(),
+                    authority: item.to_account_info(),
+                },
+                signer_seeds,
+            ),
+            1,
+        )
+    }
+
+    pub fn freeze(&self, item: &Account<'info, ItemRecord>, vault: &Pubkey) -> Result<()> {
+        let bump = [item.bump];
+        let signer_seeds: &[&[&[u8]]] = &[&[b"item", vault.as_ref(), &item.id_hash, &bump]];
+        token_interface::freeze_account(CpiContext::new_with_signer(
+            self.token_program.to_account_info(),
+            FreezeAccount {
+                account: self.holder_token_account.to_account_info(),
+                mint: self.mint.to_account_info(),
+                authority: item.to_account_info(),
+            },
+            signer_seeds,
+        ))
+    }
+
+    pub fn thaw(&self, item: &Account<'info, ItemRecord>, vault: &Pubkey) -> Result<()> {
+        let bump = [item.bump];
+        let signer_seeds: &[&[&[u8]]] = &[&[b"item", vault.as_ref(), &item.id_hash, &bump]];
+        token_interface::thaw_account(CpiContext::new_with_signer(
+            self.token_program.to_account_info(),
+            ThawAccount {
+                account: self.holder_token_account.to_account_info(),
+                mint: self.mint.to_account_info(),
+                authority: item.to_account_info(),
+            },
+            signer_seeds,
+        ))
+    }
+}
+
+/// PDA seed for a vault name or item id: SHA-256 of `normalize_identifier(identifier)`. Any
+/// identifier up to the 64-byte limit fits the 32-byte seed, and spellings that differ only in
+/// Unicode composition, case or surrounding whitespace map to the same address.
+pub fn identifier_seed(identifier: &str) -> [u8; 32] {
+    hashv(&[normalize_identifier(identifier).as_bytes()]).to_bytes()
+}
+
+/// NFC, then trimmed of whitespace and U+FEFF, then lowercased. The SDK's `normalizeIdentifier`
+/// takes the same steps; U+FEFF is trimmed because JavaScript's `trim` treats it as whitespace.
+pub fn normalize_identifier(identifier: &str) -> String {
+    let composed: String = identifier.nfc().collect();
+    composed
+        .trim_matches(|c: char| c.is_whitespace() || c == '\u{feff}')
+        .to_lowercase()
+}
+
+/// Returns the current claim holder. For tokenized items the claim token's owner is authoritative:
+/// once the token has moved, `depositor` is refreshed and the previous holder's delegate dropped.
+pub fn sync_holder(item: &mut ItemRecord, claim_token: Option<&ClaimToken>) -> Pubkey {
+    if let Some(claim_token) = claim_token {
+        let owner = claim_token.holder_token_account.owner;
+        if owner != item.depositor {
+            item.depositor = owner;
+            item.redeem_delegate = None;
+        }
+    }
+    item.depositor
+}
+
+/// In allowlist mode `wallet` must have an unexpired `AllowlistEntry` for the vault.
+fn require_allowlisted(
+    vault: &Account<VaultAccount>,
+    entry: &Option<Account<AllowlistEntry>>,
+    wallet: &Pubkey,
+    now: i64,
+) -> Result<()> {
+    if !vault.allowlist_enabled {
+        return Ok(());
+    }
+    let entry = entry.as_ref().ok_or(ErrorCode::NotAllowlisted)?;
+    require!(
+        entry.vault == vault.key() && entry.wallet == *wallet,
+        ErrorCode::NotAllowlisted
+    );
+    require!(
+        entry.expires_at.map_or(true, |expires_at| now < expires_at),
+        ErrorCode::AllowlistExpired
+    );
+    Ok(())
+}
+
+/// Transfers `amount` lamports from `payer` into the vault treasury; a zero fee is a no-op.
+fn collect_fee<'info>(
+    treasury: &mut Account<'info, VaultTreasury>,
+    payer: &Signer<'info>,
+    system_program: &Program<'info, System>,
+    amount: u64,
+) -> Result<()> {
+    if amount == 0 {
+        return Ok(());
+    }
+    system_program::transfer(
+        CpiContext::new(
+            system_program.to_account_info(),
+            system_program::Transfer {
+                from: payer.to_account_info(),
+                to: treasury.to_account_info(),
+            },
+        ),
+        amount,
+    )?;
+    treasury.fees_collected += amount;
+    Ok(())
+}
+
+/// Moves the redemption fee held on an item record to `destination` and returns the amount.
+fn release_held_fee<'info>(
+    item: &mut Account<'info, ItemRecord>,
+    destination: &AccountInfo<'info>,
+) -> Result<u64> {
+    let amount = item.redemption_fee_held;
+    item.redemption_fee_held = 0;
+    // The record is owned by this program, so lamports can be moved directly.
+    let item_info = item.to_account_info();
+    **item_info.try_borrow_mut_lamports()? -= amount;
+    **destination.try_borrow_mut_lamports()? += amount;
+    Ok(amount)
+}
+
+/// Bytes the Token-2022 metadata extension adds to a mint: TLV header (4), update authority (32),
+/// mint (32), the name/symbol/uri strings (4 + len each) and an empty additional-metadata vec (4).
+fn token_metadata_len(name: &str, symbol: &str, uri: &str) -> usize {
+    4 + 32 + 32 + (4 + name.len()) + (4 + symbol.len()) + (4 + uri.len()) + 4
+}
+
+/// Closes an account left behind by a migration: its lamports go to `destination` and it is
+/// handed back to the system program with no data.
+fn close_legacy<'info>(
+    account: &AccountInfo<'info>,
+    destination: &AccountInfo<'info>,
+) -> Result<()> {
+    **destination.try_borrow_mut_lamports()? += account.lamports();
+    **account.try_borrow_mut_lamports()? = 0;
+    account.assign(&system_program::ID);
+    account.realloc(0, false)?;
+    Ok(())
+}
+
+/// Decodes an account written before layout versioning, which carries the same discriminator
+/// as its current layout.
+fn load_legacy<T: AnchorDeserialize>(info: &AccountInfo, discriminator: &[u8]) -> Result<T> {
+    let data = info.try_borrow_data()?;
+    require!(
+        data.starts_with(discriminator),
+        anchor_lang::error::ErrorCode::AccountDiscriminatorMismatch
+    );
+    T::deserialize(&mut &data[discriminator.len()..])
+        .map_err(|_| error!(anchor_lang::error::ErrorCode::AccountDidNotDeserialize))
+}
+
+#[derive(Accounts)]
+#[instruction(vault_name: String)]
+pub struct InitializeVault<'info> {
+    #[account(mut)]
+    pub custodian: Signer<'info>,
+
+    #[account(
+        init,
+        payer = custodian,
+        space = VaultAccount::SPACE,
+        seeds = [b"vault", custodian.key().as_ref(), identifier_seed(&vault_name).as_ref()],
+        bump,
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        init,
+        payer = custodian,
+        space = VaultTreasury::SPACE,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump,
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(item_id: String)]
+pub struct DepositAndIssue<'info> {
+    /// Custodian (or one of the vault's operators) signs to confirm acceptance of the physical item
+    #[account(mut)]
+    pub custodian: Signer<'info>,
+
+    /// The depositor who will receive the on-chain claim
+    #[account(mut)]
+    pub depositor: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_operate(&custodian.key()) @ ErrorCode::NotCustodian,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        init,
+        payer = depositor,
+        space = ItemRecord::SPACE,
+        seeds = [b"item", vault.key().as_ref(), identifier_seed(&item_id).as_ref()],
+        bump,
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        mut,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump = treasury.bump
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    pub system_program: Program<'info, System>,
+
+    /// The wallet's `AllowlistEntry`, required while the vault is in allowlist mode
+    pub allowlist_entry: Option<Account<'info, AllowlistEntry>>,
+}
+
+#[derive(Accounts)]
+pub struct TransferClaim<'info> {
+    /// Current owner (depositor field) must sign
+    #[account(mut)]
+    pub current_owner: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.depositor == current_owner.key() @ ErrorCode::UnauthorizedTransfer,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = item.claim_mint.is_none() @ ErrorCode::ClaimTokenized,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.pledge.is_none() @ ErrorCode::ItemPledged,
+        constraint = item.listing.is_none() @ ErrorCode::ItemListed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// The wallet's `AllowlistEntry`, required while the vault is in allowlist mode
+    pub allowlist_entry: Option<Account<'info, AllowlistEntry>>,
+}
+
+#[derive(Accounts)]
+pub struct SetRedeemDelegate<'info> {
+    /// Current owner (depositor field) must sign
+    pub holder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+}
+
+#[derive(Accounts)]
+pub struct RedeemItem<'info> {
+    /// Current custodian (or one of the vault's operators) signs to confirm physical release
+    #[account(mut)]
+    pub custodian: Signer<'info>,
+
+    /// The wallet presenting the token: the claim holder or their approved delegate; pays the fees
+    #[account(mut)]
+    pub redeemer: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_operate(&custodian.key()) @ ErrorCode::UnauthorizedRedemption,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.pledge.is_none() @ ErrorCode::ItemPledged,
+        constraint = item.listing.is_none() @ ErrorCode::ItemListed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        mut,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump = treasury.bump
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    pub system_program: Program<'info, System>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+
+    /// The wallet's `AllowlistEntry`, required while the vault is in allowlist mode
+    pub allowlist_entry: Option<Account<'info, AllowlistEntry>>,
+}
+
+#[derive(Accounts)]
+pub struct RequestRedemption<'info> {
+    /// The claim holder or their approved redeem delegate; pays the fees
+    #[account(mut)]
+    pub requester: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.pledge.is_none() @ ErrorCode::ItemPledged,
+        constraint = item.listing.is_none() @ ErrorCode::ItemListed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        mut,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump = treasury.bump
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    pub system_program: Program<'info, System>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+
+    /// The wallet's `AllowlistEntry`, required while the vault is in allowlist mode
+    pub allowlist_entry: Option<Account<'info, AllowlistEntry>>,
+}
+
+#[derive(Accounts)]
+pub struct FulfilRedemption<'info> {
+    /// Current custodian (or one of the vault's operators) signs to confirm physical release
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_operate(&custodian.key()) @ ErrorCode::UnauthorizedRedemption,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// Receives the redemption fee held since the request
+    #[account(
+        mut,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump = treasury.bump
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+}
+
+#[derive(Accounts)]
+pub struct CancelRedemption<'info> {
+    /// The holder, the original requester, the custodian or an operator
+    pub authority: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// CHECK: only receives the refunded redemption fee; must be the wallet that made the request
+    #[account(
+        mut,
+        constraint = item.redemption_request.map_or(true, |request| request.requester == requester.key()) @ ErrorCode::InvalidRequester
+    )]
+    pub requester: UncheckedAccount<'info>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+}
+
+#[derive(Accounts)]
+pub struct TokenizeClaim<'info> {
+    /// Custodian (or one of the vault's operators) signs to back the claim token with the item it holds
+    pub custodian: Signer<'info>,
+
+    /// Current claim holder; receives the token and pays for the mint
+    #[account(mut)]
+    pub holder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_operate(&custodian.key()) @ ErrorCode::NotCustodian,
+        constraint = !vault.paused @ ErrorCode::VaultPaused,
+        constraint = !vault.allowlist_enabled @ ErrorCode::AllowlistEnforced
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.depositor == holder.key() @ ErrorCode::NotClaimHolder,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = item.claim_mint.is_none() @ ErrorCode::ClaimTokenized,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.pledge.is_none() @ ErrorCode::ItemPledged,
+        constraint = item.listing.is_none() @ ErrorCode::ItemListed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// 1-of-1 claim token; the item PDA is its freeze authority and permanent delegate
+    #[account(
+        init,
+        payer = holder,
+        seeds = [b"claim_mint", item.key().as_ref()],
+        bump,
+        mint::decimals = 0,
+        mint::authority = item,
+        mint::freeze_authority = item,
+        mint::token_program = token_program,
+        extensions::metadata_pointer::authority = item,
+        extensions::metadata_pointer::metadata_address = claim_mint,
+        extensions::permanent_delegate::delegate = item,
+    )]
+    pub claim_mint: Box<InterfaceAccount<'info, Mint>>,
+
+    #[account(
+        init,
+        payer = holder,
+        associated_token::mint = claim_mint,
+        associated_token::authority = holder,
+        associated_token::token_program = token_program,
+    )]
+    pub holder_token_account: Box<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Program<'info, Token2022>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ManageVault<'info> {
+    /// Only the current custodian manages the vault's roles
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian
+    )]
+    pub vault: Account<'info, VaultAccount>,
+}
+
+#[derive(Accounts)]
+#[instruction(wallet: Pubkey)]
+pub struct ApproveWallet<'info> {
+    /// The custodian or the vault's compliance authority; pays for the entry
+    #[account(mut)]
+    pub authority: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_manage_allowlist(&authority.key()) @ ErrorCode::NotComplianceAuthority
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        init,
+        payer = authority,
+        space = AllowlistEntry::SPACE,
+        seeds = [b"allowlist", vault.key().as_ref(), wallet.as_ref()],
+        bump,
+    )]
+    pub allowlist_entry: Account<'info, AllowlistEntry>,
+
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct RevokeWallet<'info> {
+    /// The custodian or the vault's compliance authority; receives the entry's rent
+    #[account(mut)]
+    pub authority: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_manage_allowlist(&authority.key()) @ ErrorCode::NotComplianceAuthority
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"allowlist", vault.key().as_ref(), allowlist_entry.wallet.as_ref()], 
+        bump = allowlist_entry.bump,
+        close = authority
+    )]
+    pub allowlist_entry: Account<'info, AllowlistEntry>,
+}
+
+#[derive(Accounts)]
+pub struct SubmitAttestation<'info> {
+    pub auditor: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.auditor == Some(auditor.key()) @ ErrorCode::NotAuditor
+    )]
+    pub vault: Account<'info, VaultAccount>,
+}
+
+#[derive(Accounts)]
+pub struct VerifyItem<'info> {
+    /// Anyone holding the proof, typically the auditor or the claim holder
+    pub authority: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost
+    )]
+    pub item: Account<'info, ItemRecord>,
+}
+
+#[derive(Accounts)]
+pub struct AcceptCustodian<'info> {
+    pub new_custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.pending_custodian == Some(new_custodian.key()) @ ErrorCode::NotPendingCustodian
+    )]
+    pub vault: Account<'info, VaultAccount>,
+}
+
+#[derive(Accounts)]
+pub struct FreezeItem<'info> {
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+}
+
+#[derive(Accounts)]
+pub struct RaiseDispute<'info> {
+    /// Current claim holder
+    pub holder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+}
+
+#[derive(Accounts)]
+pub struct ResolveItem<'info> {
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    /// Shares move outside the program; a lost fractionalized item is settled by buyout
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+}
+
+#[derive(Accounts)]
+pub struct UpdateMetadata<'info> {
+    /// Pays for any mint growth when a tokenized item's URI gets longer
+    #[account(mut)]
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// Claim token mint and program, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ListClaim<'info> {
+    /// Current owner (depositor field) must sign
+    pub seller: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.depositor == seller.key() @ ErrorCode::NotClaimHolder,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = item.claim_mint.is_none() @ ErrorCode::ClaimTokenized,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.pledge.is_none() @ ErrorCode::ItemPledged,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+}
+
+#[derive(Accounts)]
+pub struct BuyClaim<'info> {
+    #[account(mut)]
+    pub buyer: Signer<'info>,
+
+    /// CHECK: only receives SOL payments; must be the item's current holder, who listed it
+    #[account(mut, address = item.depositor @ ErrorCode::InvalidPaymentAccount)]
+    pub seller: UncheckedAccount<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// SPL payment accounts, required when the listing is priced in a token
+    pub payment_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub buyer_payment_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    #[account(mut)]
+    pub seller_payment_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub payment_token_program: Option<Interface<'info, TokenInterface>>,
+
+    pub system_program: Program<'info, System>,
+
+    /// The wallet's `AllowlistEntry`, required while the vault is in allowlist mode
+    pub allowlist_entry: Option<Account<'info, AllowlistEntry>>,
+}
+
+#[derive(Accounts)]
+pub struct DelistClaim<'info> {
+    pub seller: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.listing.is_some() @ ErrorCode::NotListed,
+        constraint = item.listing.map(|listing| listing.seller) == Some(seller.key()) @ ErrorCode::NotClaimHolder
+    )]
+    pub item: Account<'info, ItemRecord>,
+}
+
+#[derive(Accounts)]
+pub struct PledgeClaim<'info> {
+    /// Current owner (depositor field) must sign
+    pub holder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    /// Tokenized and fractionalized claims move outside the program, so only plain claims can be pledged
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.depositor == holder.key() @ ErrorCode::NotClaimHolder,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = item.claim_mint.is_none() @ ErrorCode::ClaimTokenized,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.listing.is_none() @ ErrorCode::ItemListed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized,
+        constraint = item.pledge.is_none() @ ErrorCode::ItemPledged
+    )]
+    pub item: Account<'info, ItemRecord>,
+}
+
+#[derive(Accounts)]
+pub struct ReleasePledge<'info> {
+    pub lienholder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.pledge.is_some() @ ErrorCode::NotPledged,
+        constraint = item.pledge.map(|pledge| pledge.lienholder) == Some(lienholder.key()) @ ErrorCode::NotLienholder
+    )]
+    pub item: Account<'info, ItemRecord>,
+}
+
+#[derive(Accounts)]
+pub struct Foreclose<'info> {
+    pub lienholder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.pledge.is_some() @ ErrorCode::NotPledged,
+        constraint = item.pledge.map(|pledge| pledge.lienholder) == Some(lienholder.key()) @ ErrorCode::NotLienholder,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// The lienholder's `AllowlistEntry`, required while the vault is in allowlist mode
+    pub allowlist_entry: Option<Account<'info, AllowlistEntry>>,
+}
+
+#[derive(Accounts)]
+pub struct Fractionalize<'info> {
+    /// Custodian (or one of the vault's operators) signs to back the shares with the item it holds
+    pub custodian: Signer<'info>,
+
+    /// Current claim holder; receives every share and pays for the mint
+    #[account(mut)]
+    pub holder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_operate(&custodian.key()) @ ErrorCode::NotCustodian,
+        constraint = !vault.paused @ ErrorCode::VaultPaused,
+        constraint = !vault.allowlist_enabled @ ErrorCode::AllowlistEnforced
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.depositor == holder.key() @ ErrorCode::NotClaimHolder,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = item.claim_mint.is_none() @ ErrorCode::ClaimTokenized,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.pledge.is_none() @ ErrorCode::ItemPledged,
+        constraint = item.listing.is_none() @ ErrorCode::ItemListed,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        init,
+        payer = holder,
+        seeds = [b"share_mint", item.key().as_ref()],
+        bump,
+        mint::decimals = 0,
+        mint::authority = item,
+        mint::freeze_authority = item,
+        mint::token_program = token_program,
+    )]
+    pub share_mint: Box<InterfaceAccount<'info, Mint>>,
+
+    #[account(
+        init,
+        payer = holder,
+        associated_token::mint = share_mint,
+        associated_token::authority = holder,
+        associated_token::token_program = token_program,
+    )]
+    pub holder_share_account: Box<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Program<'info, Token2022>,
+    pub associated_token_program: Program<'info, AssociatedToken>,
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct Recombine<'info> {
+    /// Holder of every outstanding share
+    pub holder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = !item.frozen @ ErrorCode::ItemFrozen,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.fractions.is_some() @ ErrorCode::NotFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        mut,
+        constraint = item.fractions.map(|fractions| fractions.mint) == Some(share_mint.key()) @ ErrorCode::InvalidShareAccount
+    )]
+    pub share_mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        token::mint = share_mint,
+        token::authority = holder,
+        token::token_program = token_program,
+    )]
+    pub holder_share_account: InterfaceAccount<'info, TokenAccount>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+
+    /// The wallet's `AllowlistEntry`, required while the vault is in allowlist mode
+    pub allowlist_entry: Option<Account<'info, AllowlistEntry>>,
+}
+
+#[derive(Accounts)]
+pub struct StartBuyout<'info> {
+    /// Only the current custodian; funds the buyout
+    #[account(mut)]
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian,
+        constraint = !vault.paused @ ErrorCode::VaultPaused
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.fractions.is_some() @ ErrorCode::NotFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        constraint = item.fractions.map(|fractions| fractions.mint) == Some(share_mint.key()) @ ErrorCode::InvalidShareAccount
+    )]
+    pub share_mint: InterfaceAccount<'info, Mint>,
+
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct ClaimBuyout<'info> {
+    /// Share holder; receives the payout
+    #[account(mut)]
+    pub holder: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        mut,
+        constraint = item.fractions.map(|fractions| fractions.mint) == Some(share_mint.key()) @ ErrorCode::InvalidShareAccount
+    )]
+    pub share_mint: InterfaceAccount<'info, Mint>,
+
+    #[account(
+        mut,
+        token::mint = share_mint,
+        token::authority = holder,
+        token::token_program = token_program,
+    )]
+    pub holder_share_account: InterfaceAccount<'info, TokenAccount>,
+
+    pub token_program: Interface<'info, TokenInterface>,
+}
+
+#[derive(Accounts)]
+pub struct SweepBuyout<'info> {
+    /// The custodian who started the buyout and funded the escrow; receives what is left
+    #[account(mut)]
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.depositor == custodian.key() @ ErrorCode::NotCustodian
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    #[account(
+        constraint = item.fractions.map(|fractions| fractions.mint) == Some(share_mint.key()) @ ErrorCode::InvalidShareAccount
+    )]
+    pub share_mint: InterfaceAccount<'info, Mint>,
+}
+
+#[derive(Accounts)]
+pub struct ExpireItem<'info> {
+    /// Current custodian (or one of the vault's operators)
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.can_operate(&custodian.key()) @ ErrorCode::NotCustodian
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = !item.status.is_retired() @ ErrorCode::AlreadyRedeemed,
+        constraint = item.status != ItemStatus::Disputed @ ErrorCode::ItemDisputed,
+        constraint = item.status != ItemStatus::Lost @ ErrorCode::ItemLost,
+        constraint = item.redemption_request.is_none() @ ErrorCode::RedemptionPending,
+        constraint = item.fractions.is_none() @ ErrorCode::ItemFractionalized
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// Claim token accounts, required once the item has been tokenized
+    #[account(mut)]
+    pub claim_mint: Option<InterfaceAccount<'info, Mint>>,
+
+    #[account(mut)]
+    pub holder_token_account: Option<InterfaceAccount<'info, TokenAccount>>,
+
+    pub token_program: Option<Interface<'info, TokenInterface>>,
+}
+
+#[derive(Accounts)]
+pub struct CloseItem<'info> {
+    /// The custodian, an operator or the wallet that paid the item's rent
+    pub authority: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"item", vault.key().as_ref(), item.id_hash.as_ref()], 
+        bump = item.bump,
+        constraint = item.status.is_retired() @ ErrorCode::ItemNotRedeemed,
+        constraint = item.fractions.map_or(true, |fractions| fractions.supply == 0) @ ErrorCode::BuyoutUnclaimed,
+        constraint = vault.can_operate(&authority.key()) || item.rent_payer == authority.key() @ ErrorCode::UnauthorizedClose,
+        close = rent_payer
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    /// CHECK: only receives the rent; must be the wallet recorded as the item's rent payer
+    #[account(mut, address = item.rent_payer @ ErrorCode::InvalidRentPayer)]
+    pub rent_payer: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct CloseVault<'info> {
+    /// Receives any fees left in the treasury
+    #[account(mut)]
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian,
+        constraint = vault.open_records == 0 @ ErrorCode::VaultNotEmpty,
+        close = creator
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump = treasury.bump,
+        close = creator
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    /// CHECK: only receives the rent; the creator paid for the vault and treasury accounts
+    #[account(mut, address = vault.creator @ ErrorCode::InvalidRentPayer)]
+    pub creator: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct WithdrawFees<'info> {
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        mut,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump = treasury.bump
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    /// CHECK: only receives lamports, chosen by the custodian
+    #[account(mut)]
+    pub destination: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+#[instruction(vault_name: String)]
+pub struct MigrateVault<'info> {
+    /// Pays for the new vault and treasury; anyone may migrate
+    #[account(mut)]
+    pub payer: Signer<'info>,
+
+    /// CHECK: still in the pre-versioning layout, so `migrate_vault` checks the discriminator,
+    /// decodes it and verifies its seeds
+    #[account(mut, owner = crate::ID)]
+    pub legacy_vault: UncheckedAccount<'info>,
+
+    /// CHECK: a seed of the new address and receives the old vault's rent; `migrate_vault` checks
+    /// it is the vault's custodian
+    #[account(mut)]
+    pub custodian: UncheckedAccount<'info>,
+
+    #[account(
+        init,
+        payer = payer,
+        space = VaultAccount::SPACE,
+        seeds = [b"vault", custodian.key().as_ref(), identifier_seed(&vault_name).as_ref()],
+        bump,
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    #[account(
+        init,
+        payer = payer,
+        space = VaultTreasury::SPACE,
+        seeds = [b"treasury", vault.key().as_ref()],
+        bump,
+    )]
+    pub treasury: Account<'info, VaultTreasury>,
+
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+#[instruction(item_id: String)]
+pub struct MigrateItem<'info> {
+    /// Pays for the new record; anyone may migrate
+    #[account(mut)]
+    pub payer: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    /// CHECK: still in the pre-versioning layout, so `migrate_item` checks the discriminator,
+    /// decodes it and verifies its seeds
+    #[account(mut, owner = crate::ID)]
+    pub legacy_item: UncheckedAccount<'info>,
+
+    /// CHECK: only receives the old record's rent; `migrate_item` checks it is the depositor
+    #[account(mut)]
+    pub depositor: UncheckedAccount<'info>,
+
+    #[account(
+        init,
+        payer = payer,
+        space = ItemRecord::SPACE,
+        seeds = [b"item", vault.key().as_ref(), identifier_seed(&item_id).as_ref()],
+        bump,
+    )]
+    pub item: Account<'info, ItemRecord>,
+
+    pub system_program: Program<'info, System>,
+}
+
+#[derive(Accounts)]
+pub struct CloseLegacyVault<'info> {
+    pub custodian: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian,
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    /// CHECK: still in the pre-versioning layout, so `close_legacy_vault` checks the
+    /// discriminator, decodes it and verifies its seeds
+    #[account(mut, owner = crate::ID)]
+    pub legacy_vault: UncheckedAccount<'info>,
+
+    /// CHECK: only receives the old vault's rent
+    #[account(mut, address = vault.creator @ ErrorCode::InvalidRentPayer)]
+    pub creator: UncheckedAccount<'info>,
+}
+
+#[derive(Accounts)]
+pub struct CloseLegacyItem<'info> {
+    pub custodian: Signer<'info>,
+
+    /// Receives the old record's rent; `close_legacy_item` checks it is the depositor
+    #[account(mut)]
+    pub depositor: Signer<'info>,
+
+    #[account(
+        mut,
+        seeds = [b"vault", vault.creator.as_ref(), vault.name_hash.as_ref()], 
+        bump = vault.bump,
+        constraint = vault.custodian == custodian.key() @ ErrorCode::NotCustodian,
+    )]
+    pub vault: Account<'info, VaultAccount>,
+
+    /// CHECK: still in the pre-versioning layout, so `close_legacy_item` checks the
+    /// discriminator, decodes it and verifies its seeds
+    #[account(mut, owner = crate::ID)]
+    pub legacy_item: UncheckedAccount<'info>,
+}
+
+/// `version` sits at a fixed offset (`VERSION_OFFSET`) so it can be read before the account is
+/// decoded. `reserved` is zeroed padding at the end: later fields are carved out of it, and
+/// anything that outgrows it bumps `VERSION` and gets a migration.
+#[account]
+pub struct VaultAccount {
+    pub custodian: Pubkey,                    // 32 bytes
+    pub version: u8,                          // 1 byte, layout version
+    pub vault_name: String,                   // 4 + 64 bytes (max)
+    pub name_hash: [u8; 32],                  // 32 bytes, PDA seed: `identifier_seed(vault_name)`
+    pub creator: Pubkey,                      // 32 bytes, PDA seed; stays fixed when the custodian rotates
+    pub pending_custodian: Option<Pubkey>,    // 1 + 32 bytes
+    pub operators: Vec<Pubkey>,               // 4 + 32 * MAX_OPERATORS bytes
+    pub paused: bool,                         // 1 byte
+    pub event_seq: u64,                       // 8 bytes, sequence number of the vault's latest event
+    pub items_issued: u64,                    // 8 bytes
+    pub items_outstanding: u64,               // 8 bytes
+    pub items_redeemed: u64,                  // 8 bytes
+    pub items_expired: u64,                   // 8 bytes, retired by `expire_item`
+    pub items_compensated: u64,               // 8 bytes, lost and retired by `compensate_item`
+    pub open_records: u64,                    // 8 bytes, item accounts not yet closed
+    pub fees: FeeSchedule,                    // 8 + 8 + 8 bytes
+    pub allowlist_enabled: bool,              // 1 byte, only approved wallets may hold or redeem claims
+    pub compliance_authority: Option<Pubkey>, // 1 + 32 bytes, may manage the allowlist besides the custodian
+    pub auditor: Option<Pubkey>,              // 1 + 32 bytes, may submit attestations
+    pub attestation: Option<Attestation>,     // 1 + 32 + 8 + 8 + 8 + 32 bytes, the latest one
+    pub bump: u8,                             // 1 byte
+    pub reserved: [u8; 64],                   // 64 bytes, zeroed padding for future fields
+}
+
+impl VaultAccount {
+    pub const VERSION: u8 = 1;
+    pub const VERSION_OFFSET: usize = 40;
+    pub const MAX_OPERATORS: usize = 10;
+    pub const SPACE: usize = 8 + 32 + 1 + 4 + 64 + 32 + 32 + 1 + 32 + 4 + 32 * Self::MAX_OPERATORS + 1 + 8 + 8 + 8 + 8 + 8 + 8 + 8 + 8 + 8 + 8 + 1 + 1 + 32 + 1 + 32 + 1 + 32 + 8 + 8 + 8 + 32 + 1 + 64; // discriminator + fields = 832 bytes
+
+    /// Layout version of raw account data. Vaults from before versioning have no version byte
+    /// and are recognised by their size.
+    pub fn stored_version(data: &[u8]) -> u8 {
+        if data.len() == VaultAccountV0::SPACE {
+            0
+        } else {
+            data.get(Self::VERSION_OFFSET).copied().unwrap_or(0)
+        }
+    }
+
+    /// The current custodian or one of its operators may run custody instructions.
+    pub fn can_operate(&self, key: &Pubkey) -> bool {
+        self.custodian == *key || self.operators.contains(key)
+    }
+
+    /// The custodian or the compliance authority may approve and revoke wallets.
+    pub fn can_manage_allowlist(&self, key: &Pubkey) -> bool {
+        self.custodian == *key || self.compliance_authority == Some(*key)
+    }
+
+    /// Moves one item from outstanding to redeemed.
+    pub fn record_redemption(&mut self) {
+        self.items_outstanding -= 1;
+        self.items_redeemed += 1;
+    }
+
+    /// Numbers every event emitted for the vault, starting at 1, so consumers can detect gaps.
+    pub fn next_event_seq(&mut self) -> u64 {
+        self.event_seq += 1;
+        self.event_seq
+    }
+}
+
+/// Vault fees in lamports. Storage accrues linearly per second at `storage_fee_per_year`.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, Default)]
+pub struct FeeSchedule {
+    /// Charged to the depositor on `deposit_and_issue`
+    pub issuance_fee: u64,
+    /// Charged per item per 365-day year in custody
+    pub storage_fee_per_year: u64,
+    /// Charged to the redeemer on `redeem_item` or `request_redemption`
+    pub redemption_fee: u64,
+}
+
+impl FeeSchedule {
+    pub const SECONDS_PER_YEAR: u64 = 365 * 24 * 60 * 60;
+
+    /// Storage owed for the time between `from` and `to`, rounded down.
+    pub fn storage_fee(&self, from: i64, to: i64) -> u64 {
+        let elapsed = to.saturating_sub(from).max(0) as u128;
+        let fee = self.storage_fee_per_year as u128 * elapsed / Self::SECONDS_PER_YEAR as u128;
+        u64::try_from(fee).unwrap_or(u64::MAX)
+    }
+}
+
+/// Holds a vault's collected fees. PDA `["treasury", vault]`, created with the vault.
+#[account]
+pub struct VaultTreasury {
+    pub vault: Pubkey,       // 32 bytes
+    pub fees_collected: u64, // 8 bytes, lifetime total
+    pub fees_withdrawn: u64, // 8 bytes, lifetime total
+    pub bump: u8,            // 1 byte
+}
+
+impl VaultTreasury {
+    pub const SPACE: usize = 8 + 32 + 8 + 8 + 1; // discriminator + fields = 57 bytes
+}
+
+/// Approval of one wallet in an allowlist-mode vault, at PDA `["allowlist", vault, wallet]`.
+#[account]
+pub struct AllowlistEntry {
+    pub vault: Pubkey,           // 32 bytes
+    pub wallet: Pubkey,          // 32 bytes
+    pub approved_by: Pubkey,     // 32 bytes, custodian or compliance authority
+    pub approved_ts: i64,        // 8 bytes
+    pub expires_at: Option<i64>, // 1 + 8 bytes, `None` never expires
+    pub bump: u8,                // 1 byte
+}
+
+impl AllowlistEntry {
+    pub const SPACE: usize = 8 + 32 + 32 + 32 + 8 + 1 + 8 + 1; // discriminator + fields = 122 bytes
+}
+
+/// Fixed-size fields come first so clients can filter items with `memcmp` at constant offsets:
+/// `vault` at 8, `index` at 40, `status` at 48, `id_hash` at 49 and `version` at 81. As in
+/// `VaultAccount`, `reserved` is zeroed padding for future fields.
+#[account]
+pub struct ItemRecord {
+    pub vault: Pubkey,                                 // 32 bytes
+    pub index: u64,                                    // 8 bytes, issue order within the vault, from 0
+    pub status: ItemStatus,                            // 1 byte
+    pub id_hash: [u8; 32],                             // 32 bytes, PDA seed: `identifier_seed(item_id)`
+    pub version: u8,                                   // 1 byte, layout version
+    pub item_id: String,                               // 4 + 64 bytes (max)
+    pub custodian: Pubkey,                             // 32 bytes, custodian at issuance
+    pub depositor: Pubkey,                             // 32 bytes
+    pub deposit_ts: i64,                               // 8 bytes
+    pub metadata: Option<String>,                      // 1 + 4 + MAX_METADATA_LEN bytes
+    pub metadata_hash: Option<[u8; 32]>,               // 1 + 32 bytes, SHA-256 of the off-chain certificate
+    pub redeem_ts: Option<i64>,                        // 1 + 8 bytes
+    pub redeem_delegate: Option<Pubkey>,               // 1 + 32 bytes
+    pub redemption_request: Option<RedemptionRequest>, // 1 + 32 + 8 bytes
+    pub claim_mint: Option<Pubkey>,                    // 1 + 32 bytes
+    pub frozen: bool,                                  // 1 byte
+    pub rent_payer: Pubkey,                            // 32 bytes, refunded when the record is closed
+    pub listing: Option<Listing>,                      // 1 + 32 + 8 + 1 + 32 + 8 bytes
+    pub storage_paid_ts: i64,                          // 8 bytes, storage fees are settled up to here
+    pub fractions: Option<Fractions>,                  // 1 + 32 + 8 + 1 + 8 bytes
+    pub time_locks: TimeLocks,                         // 9 + 9 + 9 bytes
+    pub status_note: Option<String>,                   // 1 + 4 + MAX_NOTE_LEN bytes, latest dispute, loss or resolution note
+    pub last_verified_ts: Option<i64>,                 // 1 + 8 bytes, time of the latest attestation that included the item
+    pub pledge: Option<Pledge>,                        // 1 + 32 + 8 + 8 bytes
+    pub bump: u8,                                      // 1 byte
+    pub redemption_fee_held: u64,                      // 8 bytes, lamports a pending request holds on the record
+    pub buyout_floor: u64,                             // 8 bytes, minimum lamports per share a buyout pays
+    pub reserved: [u8; 112],                           // 112 bytes, zeroed padding for future fields
+}
+
+impl ItemRecord {
+    pub const VERSION: u8 = 1;
+    pub const VERSION_OFFSET: usize = 81;
+    pub const MAX_METADATA_LEN: usize = 200;
+    pub const MAX_NOTE_LEN: usize = 200;
+    pub const SPACE: usize = 8 + 32 + 8 + 1 + 32 + 1 + 4 + 64 + 32 + 32 + 8 + 1 + 4 + Self::MAX_METADATA_LEN + 1 + 32 + 1 + 8 + 1 + 32 + 1 + 32 + 8 + 1 + 32 + 1 + 32 + 1 + 32 + 8 + 1 + 32 + 8 + 8 + 1 + 32 + 8 + 1 + 8 + 9 + 9 + 9 + 1 + 4 + Self::MAX_NOTE_LEN + 1 + 8 + 1 + 32 + 8 + 8 + 1 + 8 + 8 + 112; // discriminator + fields = 1168 bytes
+
+    /// Layout version of raw account data; see `VaultAccount::stored_version`.
+    pub fn stored_version(data: &[u8]) -> u8 {
+        if data.len() == ItemRecordV0::SPACE {
+            0
+        } else {
+            data.get(Self::VERSION_OFFSET).copied().unwrap_or(0)
+        }
+    }
+
+    pub fn metadata_fits(metadata_uri: &Option<String>) -> bool {
+        metadata_uri
+            .as_ref()
+            .map_or(true, |uri| uri.len() <= Self::MAX_METADATA_LEN)
+    }
+}
+
+/// Lifecycle of an item. `Disputed` and `Lost` lock the claim until the custodian resolves them;
+/// `Compensated`, `Redeemed` and `Expired` are final.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, PartialEq, Eq)]
+pub enum ItemStatus {
+    Active,
+    /// Raised by the holder with `raise_dispute`
+    Disputed,
+    /// Declared by the custodian with `declare_loss`
+    Lost,
+    /// The holder of a lost item was compensated off-chain
+    Compensated,
+    Redeemed,
+    /// Retired by `expire_item`
+    Expired,
+}
+
+impl ItemStatus {
+    /// The item has left custody for good and its record can be closed.
+    pub fn is_retired(self) -> bool {
+        matches!(self, Self::Compensated | Self::Redeemed | Self::Expired)
+    }
+
+    /// The claim is locked until the custodian resolves the dispute or loss.
+    pub fn is_contested(self) -> bool {
+        matches!(self, Self::Disputed | Self::Lost)
+    }
+
+    pub fn require_active(self) -> Result<()> {
+        match self {
+            Self::Active => Ok(()),
+            Self::Disputed => err!(ErrorCode::ItemDisputed),
+            Self::Lost => err!(ErrorCode::ItemLost),
+            _ => err!(ErrorCode::AlreadyRedeemed),
+        }
+    }
+}
+
+/// A pending redemption, set by `request_redemption` and cleared once fulfilled or cancelled.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct RedemptionRequest {
+    pub requester: Pubkey,
+    pub requested_ts: i64,
+}
+
+/// Optional unix-time restrictions fixed at issue; `None` leaves that action unrestricted.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy, Default)]
+pub struct TimeLocks {
+    /// Transfers, sales, claim tokens and shares are blocked before this time
+    pub transferable_after: Option<i64>,
+    /// Redemption is blocked before this time
+    pub redeemable_after: Option<i64>,
+    /// From this time the claim can only be retired with `expire_item`
+    pub expires_at: Option<i64>,
+}
+
+impl TimeLocks {
+    /// An expiry must be in the future and leave room for the other locks to open.
+    pub fn is_valid(&self, now: i64) -> bool {
+        self.expires_at.map_or(true, |expires_at| {
+            expires_at > now
+                && self.transferable_after.map_or(true, |after| after < expires_at)
+                && self.redeemable_after.map_or(true, |after| after < expires_at)
+        })
+    }
+
+    pub fn is_expired(&self, now: i64) -> bool {
+        self.expires_at.map_or(false, |expires_at| now >= expires_at)
+    }
+
+    pub fn check_transfer(&self, now: i64) -> Result<()> {
+        require!(
+            self.transferable_after.map_or(true, |after| now >= after),
+            ErrorCode::TransferLocked
+        );
+        require!(!self.is_expired(now), ErrorCode::ItemExpired);
+        Ok(())
+    }
+
+    pub fn check_redemption(&self, now: i64) -> Result<()> {
+        require!(
+            self.redeemable_after.map_or(true, |after| now >= after),
+            ErrorCode::RedemptionLocked
+        );
+        require!(!self.is_expired(now), ErrorCode::ItemExpired);
+        Ok(())
+    }
+}
+
+/// An auditor's proof-of-reserves check. `merkle_root` commits to the ids of the items found:
+/// each leaf is `sha256(0x00 || item_id)` and each parent `sha256(0x01 || lower || higher)` of its
+/// two children in byte order, an unpaired node moving up unchanged. The SDK builds these trees.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct Attestation {
+    pub auditor: Pubkey,
+    pub timestamp: i64,
+    /// Items the auditor found
+    pub item_count: u64,
+    /// The vault's outstanding items when the attestation was submitted
+    pub items_outstanding: u64,
+    pub merkle_root: [u8; 32],
+}
+
+impl Attestation {
+    pub fn leaf(item_id: &str) -> [u8; 32] {
+        hashv(&[&[0], item_id.as_bytes()]).to_bytes()
+    }
+
+    /// Whether `proof`, the sibling hashes from leaf to root, links `item_id` to `merkle_root`.
+    pub fn includes(&self, item_id: &str, proof: &[[u8; 32]]) -> bool {
+        let root = proof.iter().fold(Self::leaf(item_id), |node, sibling| {
+            let (lower, higher) = if node <= *sibling {
+                (node, *sibling)
+            } else {
+                (*sibling, node)
+            };
+            hashv(&[&[1], &lower, &higher]).to_bytes()
+        });
+        root == self.merkle_root
+    }
+}
+
+/// Share mint of a fractionalized item. `supply` counts the shares still in circulation.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct Fractions {
+    pub mint: Pubkey,
+    pub supply: u64,
+    /// Lamports paid per share once the custodian has bought the item out
+    pub buyout_price: Option<u64>,
+}
+
+impl Fractions {
+    /// How long share holders have to `claim_buyout` before the custodian may sweep the escrow
+    pub const CLAIM_PERIOD: i64 = 365 * 24 * 60 * 60;
+}
+
+/// Collateral lien set by `pledge_claim`; cleared by `release_pledge`, `foreclose` or when the
+/// item is retired.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct Pledge {
+    pub lienholder: Pubkey,
+    /// From this time the lienholder may `foreclose`
+    pub deadline: i64,
+    pub pledged_ts: i64,
+}
+
+/// `VaultAccount` as first deployed, before layout versioning, kept for `migrate_vault`. Its PDA
+/// is `["vault", custodian, vault_name]` with the raw name bytes as the last seed.
+#[derive(AnchorDeserialize)]
+pub struct VaultAccountV0 {
+    pub custodian: Pubkey,
+    pub vault_name: String,
+    pub bump: u8,
+}
+
+impl VaultAccountV0 {
+    pub const SPACE: usize = 8 + 32 + 4 + 64 + 1; // discriminator + fields = 109 bytes
+
+    pub fn load(info: &AccountInfo) -> Result<Self> {
+        load_legacy(info, VaultAccount::DISCRIMINATOR)
+    }
+
+    pub fn address(&self) -> Result<Pubkey> {
+        Pubkey::create_program_address(
+            &[
+                b"vault",
+                self.custodian.as_ref(),
+                self.vault_name.as_bytes(),
+                &[self.bump],
+            ],
+            &crate::ID,
+        )
+        .map_err(|_| error!(anchor_lang::error::ErrorCode::ConstraintSeeds))
+    }
+}
+
+/// `ItemRecord` as first deployed, before layout versioning, kept for `migrate_item`. Its PDA is
+/// `["item", vault, item_id]` under the vault's old address, with the raw id bytes.
+#[derive(AnchorDeserialize)]
+pub struct ItemRecordV0 {
+    pub item_id: String,
+    pub custodian: Pubkey,
+    pub depositor: Pubkey,
+    pub deposit_ts: i64,
+    pub redeemed: bool,
+    pub metadata: Option<String>,
+    pub redeem_ts: Option<i64>,
+    pub bump: u8,
+}
+
+impl ItemRecordV0 {
+    pub const SPACE: usize = 8 + 4 + 64 + 32 + 32 + 8 + 1 + 1 + 4 + 200 + 1 + 8 + 1; // discriminator + fields = 364 bytes
+
+    pub fn load(info: &AccountInfo) -> Result<Self> {
+        load_legacy(info, ItemRecord::DISCRIMINATOR)
+    }
+
+    pub fn address(&self, vault: &Pubkey) -> Result<Pubkey> {
+        Pubkey::create_program_address(
+            &[b"item", vault.as_ref(), self.item_id.as_bytes(), &[self.bump]],
+            &crate::ID,
+        )
+        .map_err(|_| error!(anchor_lang::error::ErrorCode::ConstraintSeeds))
+    }
+}
+
+/// Sale terms set by `list_claim`; cleared by `buy_claim` or `delist_claim`.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone, Copy)]
+pub struct Listing {
+    pub seller: Pubkey,
+    /// In lamports, or in base units of `payment_mint`
+    pub price: u64,
+    /// SPL token the seller accepts; `None` means SOL
+    pub payment_mint: Option<Pubkey>,
+    pub listed_ts: i64,
+}
+
+#[event]
+pub struct ItemDeposited {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub depositor: Pubkey,
+    pub custodian: Pubkey,
+    pub issuance_fee: u64,
+    pub time_locks: TimeLocks,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ClaimTransferred {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub old_owner: Pubkey,
+    pub new_owner: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemRedeemed {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub redeemer: Pubkey,
+    pub custodian: Pubkey,
+    /// Fees collected by this instruction; zero when fulfilling a request that prepaid them
+    pub storage_fee: u64,
+    pub redemption_fee: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct RedeemDelegateSet {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub delegate: Option<Pubkey>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct RedemptionRequested {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub requester: Pubkey,
+    pub storage_fee: u64,
+    pub redemption_fee: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct RedemptionCancelled {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub cancelled_by: Pubkey,
+    pub refunded_fee: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ClaimTokenized {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub mint: Pubkey,
+    pub holder: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct CustodianProposed {
+    pub vault: Pubkey,
+    pub custodian: Pubkey,
+    pub proposed_custodian: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct CustodianChanged {
+    pub vault: Pubkey,
+    pub old_custodian: Pubkey,
+    pub new_custodian: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct OperatorAdded {
+    pub vault: Pubkey,
+    pub operator: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct OperatorRemoved {
+    pub vault: Pubkey,
+    pub operator: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct VaultPaused {
+    pub vault: Pubkey,
+    pub custodian: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct VaultUnpaused {
+    pub vault: Pubkey,
+    pub custodian: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct AllowlistConfigured {
+    pub vault: Pubkey,
+    pub enabled: bool,
+    pub compliance_authority: Option<Pubkey>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct WalletApproved {
+    pub vault: Pubkey,
+    pub wallet: Pubkey,
+    pub approved_by: Pubkey,
+    pub expires_at: Option<i64>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct WalletRevoked {
+    pub vault: Pubkey,
+    pub wallet: Pubkey,
+    pub revoked_by: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct AuditorSet {
+    pub vault: Pubkey,
+    pub custodian: Pubkey,
+    pub auditor: Option<Pubkey>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct AttestationSubmitted {
+    pub vault: Pubkey,
+    pub auditor: Pubkey,
+    pub item_count: u64,
+    pub items_outstanding: u64,
+    pub merkle_root: [u8; 32],
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemVerified {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub auditor: Pubkey,
+    pub attested_ts: i64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct DisputeRaised {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub reason: String,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemDeclaredLost {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub custodian: Pubkey,
+    pub previous_status: ItemStatus,
+    pub note: String,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct DisputeResolved {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub custodian: Pubkey,
+    pub previous_status: ItemStatus,
+    pub note: String,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemCompensated {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub custodian: Pubkey,
+    pub note: String,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemFrozen {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub custodian: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemUnfrozen {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub custodian: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct MetadataUpdated {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub custodian: Pubkey,
+    pub old_metadata: Option<String>,
+    pub new_metadata: Option<String>,
+    pub old_metadata_hash: Option<[u8; 32]>,
+    pub new_metadata_hash: Option<[u8; 32]>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ClaimListed {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub seller: Pubkey,
+    pub price: u64,
+    pub payment_mint: Option<Pubkey>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ClaimSold {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub seller: Pubkey,
+    pub buyer: Pubkey,
+    pub price: u64,
+    pub payment_mint: Option<Pubkey>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ClaimDelisted {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub seller: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ClaimPledged {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub lienholder: Pubkey,
+    pub deadline: i64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct PledgeReleased {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub lienholder: Pubkey,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ClaimForeclosed {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub previous_holder: Pubkey,
+    pub lienholder: Pubkey,
+    pub deadline: i64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct FeeScheduleSet {
+    pub vault: Pubkey,
+    pub custodian: Pubkey,
+    pub issuance_fee: u64,
+    pub storage_fee_per_year: u64,
+    pub redemption_fee: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct FeesWithdrawn {
+    pub vault: Pubkey,
+    pub custodian: Pubkey,
+    pub destination: Pubkey,
+    pub amount: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemExpired {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub custodian: Pubkey,
+    pub expires_at: i64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemFractionalized {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub share_mint: Pubkey,
+    pub shares: u64,
+    pub buyout_floor: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemRecombined {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub shares: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct BuyoutStarted {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub custodian: Pubkey,
+    pub price_per_share: u64,
+    pub shares: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct BuyoutClaimed {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub holder: Pubkey,
+    pub shares: u64,
+    pub amount: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct BuyoutSwept {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub custodian: Pubkey,
+    /// Shares left unclaimed, whose payment went back to the custodian
+    pub shares: u64,
+    pub amount: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemClosed {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub item_id: String,
+    pub index: u64,
+    pub custodian: Pubkey,
+    pub holder: Pubkey,
+    pub deposit_ts: i64,
+    pub redeem_ts: Option<i64>,
+    pub metadata: Option<String>,
+    pub metadata_hash: Option<[u8; 32]>,
+    pub claim_mint: Option<Pubkey>,
+    pub rent_payer: Pubkey,
+    pub status: ItemStatus,
+    pub status_note: Option<String>,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct VaultClosed {
+    pub vault: Pubkey,
+    pub custodian: Pubkey,
+    pub vault_name: String,
+    pub items_issued: u64,
+    pub items_redeemed: u64,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct VaultMigrated {
+    pub vault: Pubkey,
+    pub legacy_vault: Pubkey,
+    pub custodian: Pubkey,
+    pub from_version: u8,
+    pub to_version: u8,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct ItemMigrated {
+    pub vault: Pubkey,
+    pub item_account: Pubkey,
+    pub legacy_item: Pubkey,
+    pub item_id: String,
+    pub index: u64,
+    pub from_version: u8,
+    pub to_version: u8,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct LegacyVaultClosed {
+    pub vault: Pubkey,
+    pub legacy_vault: Pubkey,
+    pub vault_name: String,
+    pub timestamp: i64,
+    pub seq: u64,
+}
+
+#[event]
+pub struct LegacyItemClosed {
+    pub vault: Pubkey,
+    pub legacy_item: Pubkey,
+    pub item_id: String,
+    pub depositor: Pubkey,
+    /// The item was not redeemed yet and is handed back by the close
+    pub released: bool,
+    pub timestamp: i64,
+    pub seq: u64,
 }
 
 #[error_code]
@@ -233,10 +4441,134 @@ pub enum ErrorCode {
     NameTooLong,
     #[msg("Item id too long")]
     IdTooLong,
-    #[msg("Item already redeemed")]
+    #[msg("Item already redeemed or retired")]
     AlreadyRedeemed,
     #[msg("Unauthorized transfer attempt")]
     UnauthorizedTransfer,
     #[msg("Unauthorized redemption attempt")]
     UnauthorizedRedemption,
+    #[msg("Redeemer is not the claim holder or an approved delegate")]
+    UnauthorizedRedeemer,
+    #[msg("Signer is not the current claim holder")]
+    NotClaimHolder,
+    #[msg("A redemption request is pending for this item")]
+    RedemptionPending,
+    #[msg("No redemption request is pending for this item")]
+    NoRedemptionRequest,
+    #[msg("Unauthorized redemption cancellation")]
+    UnauthorizedCancellation,
+    #[msg("Signer is not the vault custodian")]
+    NotCustodian,
+    #[msg("Claim is tokenized; transfer the claim token instead")]
+    ClaimTokenized,
+    #[msg("Claim token accounts are required for a tokenized item")]
+    MissingClaimToken,
+    #[msg("Token account does not hold this item's claim token")]
+    InvalidClaimToken,
+    #[msg("Claim token name or symbol too long")]
+    TokenMetadataTooLong,
+    #[msg("Signer is not the proposed custodian")]
+    NotPendingCustodian,
+    #[msg("Operator already added")]
+    OperatorAlreadyAdded,
+    #[msg("Vault operator list is full")]
+    TooManyOperators,
+    #[msg("Operator not found")]
+    OperatorNotFound,
+    #[msg("Vault is paused")]
+    VaultPaused,
+    #[msg("Item is frozen")]
+    ItemFrozen,
+    #[msg("Only redeemed or retired items can be closed")]
+    ItemNotRedeemed,
+    #[msg("Unauthorized attempt to close the item")]
+    UnauthorizedClose,
+    #[msg("Rent must be returned to the wallet that paid it")]
+    InvalidRentPayer,
+    #[msg("Vault still has item records")]
+    VaultNotEmpty,
+    #[msg("Metadata URI exceeds 200 bytes")]
+    MetadataTooLong,
+    #[msg("Listing price must be greater than zero")]
+    InvalidPrice,
+    #[msg("Item is not listed for sale")]
+    NotListed,
+    #[msg("Item is listed for sale")]
+    ItemListed,
+    #[msg("Listing price or payment mint differs from the buyer's terms")]
+    ListingChanged,
+    #[msg("Payment accounts not supplied for a token-priced listing")]
+    MissingPaymentAccount,
+    #[msg("Payment account does not match the listing")]
+    InvalidPaymentAccount,
+    #[msg("Withdrawal exceeds the fees held in the treasury")]
+    InsufficientFees,
+    #[msg("Requester account does not match the redemption request")]
+    InvalidRequester,
+    #[msg("Share count must be greater than zero")]
+    InvalidShareCount,
+    #[msg("Item is fractionalized")]
+    ItemFractionalized,
+    #[msg("Item is not fractionalized")]
+    NotFractionalized,
+    #[msg("Share mint or account does not belong to the item")]
+    InvalidShareAccount,
+    #[msg("Recombination requires every share")]
+    IncompleteShares,
+    #[msg("No buyout has been started for this item")]
+    NoBuyout,
+    #[msg("Bought-out shares have not all been claimed")]
+    BuyoutUnclaimed,
+    #[msg("Only the custodian or the compliance authority can manage the allowlist")]
+    NotComplianceAuthority,
+    #[msg("Expiry must be in the future")]
+    InvalidExpiry,
+    #[msg("Wallet is not on the vault's allowlist")]
+    NotAllowlisted,
+    #[msg("Wallet's allowlist approval has expired")]
+    AllowlistExpired,
+    #[msg("Claim tokens and shares cannot be issued while the allowlist is enforced")]
+    AllowlistEnforced,
+    #[msg("Expiry must be in the future and after the other time locks")]
+    InvalidTimeLocks,
+    #[msg("Claim cannot be transferred yet")]
+    TransferLocked,
+    #[msg("Item cannot be redeemed yet")]
+    RedemptionLocked,
+    #[msg("Claim has expired")]
+    ItemExpired,
+    #[msg("Item has not expired")]
+    NotExpired,
+    #[msg("Signer is not the vault auditor")]
+    NotAuditor,
+    #[msg("Vault has no attestation")]
+    NoAttestation,
+    #[msg("Item is not included in the latest attestation")]
+    NotInAttestation,
+    #[msg("Note exceeds 200 bytes")]
+    NoteTooLong,
+    #[msg("Item is disputed")]
+    ItemDisputed,
+    #[msg("Item has been declared lost")]
+    ItemLost,
+    #[msg("Item is not disputed or lost")]
+    NotContested,
+    #[msg("Item has not been declared lost")]
+    NotLost,
+    #[msg("Claim is pledged as collateral")]
+    ItemPledged,
+    #[msg("Claim is not pledged")]
+    NotPledged,
+    #[msg("Signer is not the lienholder")]
+    NotLienholder,
+    #[msg("Pledge deadline must be in the future and before the item expires")]
+    InvalidPledgeDeadline,
+    #[msg("Pledge deadline has not passed")]
+    PledgeNotDue,
+    #[msg("Account already uses the current layout")]
+    AlreadyMigrated,
+    #[msg("Buyout price is below the floor set when the item was fractionalized")]
+    BuyoutBelowFloor,
+    #[msg("Shares are still in circulation and the buyout claim period has not ended")]
+    BuyoutClaimOpen,
 }
@@ -0,0 +1,94 @@
+// Issues one receipt per row of a CSV file (item_id,metadata_uri,depositor).
+//
+//   ANCHOR_PROVIDER_URL=... ANCHOR_WALLET=custodian.json \
+//     yarn run ts-node scripts/bulk-import.ts <vault> <file.csv> --keys <dir> [--json]
+//
+// The provider wallet signs as custodian. Each depositor must co-sign, so
+// `--keys` points to a directory of depositor keypair files (Solana CLI JSON).
+
+import * as anchor from "@coral-xyz/anchor";
+import { Program } from "@coral-xyz/anchor";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import * as path from "path";
+import { VaultReceipt } from "../target/types/vault_receipt";
+import { VaultReceiptClient, parseDepositCsv } from "../sdk";
+
+function loadKeypairs(dir: string): Keypair[] {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .map((name) =>
+      Keypair.fromSecretKey(
+        Uint8Array.from(
+          JSON.parse(fs.readFileSync(path.join(dir, name), "utf8"))
+        )
+      )
+    );
+}
+
+async function main(argv: string[]): Promise<number> {
+  const json = argv.indexOf("--json") >= 0;
+  const keysFlag = argv.indexOf("--keys");
+  const keysDir = keysFlag >= 0 ? argv[keysFlag + 1] : undefined;
+  const [vaultArg, csvPath] = argv.filter(
+    (arg, i) => !arg.startsWith("--") && (keysFlag < 0 || i !== keysFlag + 1)
+  );
+  if (!vaultArg || !csvPath || !keysDir) {
+    console.error(
+      "usage: bulk-import <vault> <file.csv> --keys <dir> [--json]"
+    );
+    return 2;
+  }
+
+  const provider = anchor.AnchorProvider.env();
+  anchor.setProvider(provider);
+  const program = anchor.workspace.VaultReceipt as Program<VaultReceipt>;
+  const client = new VaultReceiptClient(program);
+  const custodian = (provider.wallet as anchor.Wallet).payer;
+
+  const { rows, errors } = parseDepositCsv(fs.readFileSync(csvPath, "utf8"));
+  const results = await client.depositAndIssueBatch({
+    custodian,
+    vault: new PublicKey(vaultArg),
+    rows,
+    depositors: loadKeypairs(keysDir),
+  });
+
+  const report = [
+    ...errors.map(({ line, message }) => ({
+      line,
+      itemId: null as string | null,
+      item: null as string | null,
+      signature: null as string | null,
+      error: message as string | null,
+    })),
+    ...results.map((result, i) => ({
+      line: rows[i].line,
+      itemId: result.itemId,
+      item: result.item.toBase58(),
+      signature: result.signature,
+      error: result.error ? String(result.error) : null,
+    })),
+  ].sort((a, b) => a.line - b.line);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    for (const row of report) {
+      const status = row.error ? `failed: ${row.error}` : `ok ${row.signature}`;
+      console.log(`line ${row.line}\t${row.itemId ?? "-"}\t${status}`);
+    }
+    const failed = report.filter((row) => row.error).length;
+    console.log(`${report.length - failed} issued, ${failed} failed`);
+  }
+  return report.some((row) => row.error) ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err);
+    process.exit(1);
+  }
+);
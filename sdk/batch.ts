@@ -0,0 +1,68 @@
+import {
+  AddressLookupTableAccount,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+
+/**
+ * Serialized size of a v0 transaction holding `instructions`, signatures
+ * included, or `Infinity` when it does not serialize at all.
+ */
+export function transactionSize(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = []
+): number {
+  try {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      // Any 32-byte value; the blockhash does not affect the size.
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions,
+    }).compileToV0Message(lookupTables);
+    return new VersionedTransaction(message).serialize().length;
+  } catch {
+    return Infinity;
+  }
+}
+
+/**
+ * Splits `instructions` into consecutive groups that each fit in a single v0
+ * transaction. Accounts found in `lookupTables` are referenced by index
+ * instead of by key, which lets more instructions share a transaction. An
+ * instruction too large on its own still gets a group of its own.
+ */
+export function packInstructions(
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  {
+    lookupTables = [],
+    maxPerTransaction = Infinity,
+  }: {
+    lookupTables?: AddressLookupTableAccount[];
+    maxPerTransaction?: number;
+  } = {}
+): TransactionInstruction[][] {
+  const groups: TransactionInstruction[][] = [];
+  let current: TransactionInstruction[] = [];
+
+  for (const instruction of instructions) {
+    const candidate = [...current, instruction];
+    const fits =
+      candidate.length <= maxPerTransaction &&
+      transactionSize(candidate, payer, lookupTables) <= PACKET_DATA_SIZE;
+    if (fits || current.length === 0) {
+      current = candidate;
+    } else {
+      groups.push(current);
+      current = [instruction];
+    }
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
@@ -0,0 +1,2666 @@
+import { BN, IdlAccounts, IdlTypes, Program, utils } from "@coral-xyz/anchor";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  AddressLookupTableAccount,
+  GetProgramAccountsFilter,
+  PublicKey,
+  Signer,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { VaultReceipt } from "../target/types/vault_receipt";
+import { packInstructions } from "./batch";
+import { translateError } from "./errors";
+import {
+  LEGACY_ACCOUNT_SIZES,
+  decodeLegacyItem,
+  decodeLegacyVault,
+  findLegacyItemAddress,
+  findLegacyVaultAddress,
+} from "./legacy";
+import { AttestationTree } from "./merkle";
+import { MetadataVerification, verifyMetadataFile } from "./metadata";
+import {
+  findAllowlistAddress,
+  findClaimMintAddress,
+  findItemAddress,
+  findShareMintAddress,
+  findTreasuryAddress,
+  findVaultAddress,
+} from "./pda";
+
+export type VaultAccount = IdlAccounts<VaultReceipt>["vaultAccount"];
+export type ItemRecord = IdlAccounts<VaultReceipt>["itemRecord"];
+export type VaultTreasury = IdlAccounts<VaultReceipt>["vaultTreasury"];
+export type AllowlistEntry = IdlAccounts<VaultReceipt>["allowlistEntry"];
+export type FeeSchedule = IdlTypes<VaultReceipt>["feeSchedule"];
+export type Attestation = IdlTypes<VaultReceipt>["attestation"];
+
+/** Matches the program's 365-day year for storage fees. */
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * Byte offsets of the fixed-size fields at the start of an `ItemRecord`
+ * (after the 8-byte discriminator), for `memcmp` filters.
+ */
+export const ITEM_RECORD_OFFSETS = {
+  vault: 8,
+  index: 40,
+  status: 48,
+  idHash: 49,
+  version: 81,
+} as const;
+
+/** Byte offsets of the fixed-position `VaultAccount` fields, for `memcmp` filters. */
+export const VAULT_ACCOUNT_OFFSETS = {
+  custodian: 8,
+  version: 40,
+} as const;
+
+/** Account sizes of the current layouts, which the list methods filter on. */
+export const ACCOUNT_SIZES = {
+  vaultAccount: 832,
+  itemRecord: 1168,
+} as const;
+
+/** `ItemRecord.status` variants, in on-chain order. */
+export const ITEM_STATUSES = [
+  "active",
+  "disputed",
+  "lost",
+  "compensated",
+  "redeemed",
+  "expired",
+] as const;
+
+export type ItemStatusName = (typeof ITEM_STATUSES)[number];
+
+/** `outstanding` covers every status still in custody: active, disputed and lost. */
+export type ItemStatus = "outstanding" | ItemStatusName;
+
+/** The record's status as a plain name, e.g. `"disputed"`. */
+export function itemStatus(record: Pick<ItemRecord, "status">): ItemStatusName {
+  return Object.keys(record.status)[0] as ItemStatusName;
+}
+
+export interface ListItemsOptions {
+  /** Only return items with this status. */
+  status?: ItemStatus;
+}
+
+export interface CreateVaultParams {
+  custodian: Signer;
+  vaultName: string;
+}
+
+export interface DepositAndIssueParams {
+  /** The vault's current custodian or one of its operators. */
+  custodian: PublicKey;
+  depositor: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  metadataUri?: string | null;
+  /** SHA-256 of the off-chain certificate; see `hashMetadata`. */
+  metadataHash?: number[] | Uint8Array | null;
+  /** Dates before or after which the claim cannot be transferred or redeemed. */
+  timeLocks?: TimeLockParams;
+  /** Also mint a 1-of-1 claim token to the depositor in the same transaction. */
+  token?: ClaimTokenParams | null;
+}
+
+/** Unix seconds; omitted or `null` locks leave that action unrestricted. */
+export interface TimeLockParams {
+  /** Transfers, sales, claim tokens and shares are blocked before this time. */
+  transferableAfter?: BN | number | null;
+  /** Redemption is blocked before this time. */
+  redeemableAfter?: BN | number | null;
+  /** From this time the claim can only be retired with `expireItem`. */
+  expiresAt?: BN | number | null;
+}
+
+export type BatchDepositRow = Pick<
+  DepositAndIssueParams,
+  "depositor" | "itemId" | "metadataUri" | "metadataHash" | "timeLocks"
+>;
+
+export interface DepositAndIssueBatchParams {
+  custodian: Signer;
+  vault: PublicKey;
+  rows: BatchDepositRow[];
+  /** Signers for the rows' depositors; rows without one fail without being sent. */
+  depositors: Signer[];
+  /** Lookup tables holding shared accounts (vault, programs) to fit more rows per transaction. */
+  lookupTables?: AddressLookupTableAccount[];
+  maxPerTransaction?: number;
+}
+
+export interface BatchDepositResult {
+  itemId: string;
+  item: PublicKey;
+  /** Transaction that issued the item, or `null` if it failed. */
+  signature: string | null;
+  error: unknown | null;
+}
+
+export interface ClaimTokenParams {
+  /** Token name, at most 32 bytes. */
+  name: string;
+  /** Token symbol, at most 10 bytes. */
+  symbol: string;
+}
+
+export interface ProposeCustodianParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  newCustodian: PublicKey;
+}
+
+export interface AcceptCustodianParams {
+  newCustodian: PublicKey;
+  vault: PublicKey;
+}
+
+export interface OperatorParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  operator: PublicKey;
+}
+
+export interface PauseVaultParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+}
+
+export interface SetFeeScheduleParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  /** Lamport amounts; omitted fees are set to zero. */
+  fees: {
+    issuanceFee?: BN | number;
+    storageFeePerYear?: BN | number;
+    redemptionFee?: BN | number;
+  };
+}
+
+export interface WithdrawFeesParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  amount: BN | number;
+  /** Defaults to the custodian. */
+  destination?: PublicKey;
+}
+
+/**
+ * Fees `redeem_item` or `request_redemption` would charge, in lamports. A
+ * request holds its redemption fee until it is fulfilled, and cancelling it
+ * refunds that fee.
+ */
+export interface RedemptionQuote {
+  storageFee: BN;
+  redemptionFee: BN;
+  total: BN;
+  /** Unix time the quote was computed for. */
+  at: number;
+}
+
+export interface SetAllowlistParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  enabled: boolean;
+  /** Key allowed to approve and revoke wallets besides the custodian; `null` for none. */
+  complianceAuthority?: PublicKey | null;
+}
+
+export interface ApproveWalletParams {
+  /** The custodian or the vault's compliance authority. */
+  authority: PublicKey;
+  vault: PublicKey;
+  wallet: PublicKey;
+  /** Unix seconds after which the approval lapses; omit or pass `null` for none. */
+  expiresAt?: BN | number | null;
+}
+
+export interface RevokeWalletParams {
+  /** The custodian or the vault's compliance authority. */
+  authority: PublicKey;
+  vault: PublicKey;
+  wallet: PublicKey;
+}
+
+export interface SetAuditorParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  /** Key allowed to submit attestations; `null` for none. */
+  auditor: PublicKey | null;
+}
+
+export interface SubmitAttestationParams {
+  auditor: PublicKey;
+  vault: PublicKey;
+  /** Items the auditor found in the vault. */
+  itemCount: number | BN;
+  /** Root of an `AttestationTree` over their ids. */
+  merkleRoot: number[];
+}
+
+export interface VerifyItemParams {
+  /** Any wallet; pays the fee. */
+  authority: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** From `AttestationTree.proof` on the tree behind the latest attestation. */
+  proof: number[][];
+}
+
+export interface FreezeItemParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface RaiseDisputeParams {
+  /** Current claim holder. */
+  holder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** Up to 200 bytes, stored as the item's `statusNote`. */
+  reason: string;
+}
+
+export interface ResolveItemParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** Up to 200 bytes, stored as the item's `statusNote`. */
+  note: string;
+}
+
+export interface TokenizeClaimParams extends ClaimTokenParams {
+  custodian: PublicKey;
+  holder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface TransferClaimParams {
+  currentOwner: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  newOwner: PublicKey;
+}
+
+export interface ListClaimParams {
+  seller: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** In lamports, or in base units of `paymentMint`. */
+  price: BN | number;
+  /** SPL token the seller accepts; omit or pass `null` for SOL. */
+  paymentMint?: PublicKey | null;
+}
+
+export interface BuyClaimParams {
+  buyer: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** The terms the buyer agreed to; the purchase fails if the listing has changed since. */
+  price: BN | number;
+  paymentMint?: PublicKey | null;
+}
+
+export interface DelistClaimParams {
+  seller: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface PledgeClaimParams {
+  holder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** Lender that may release or foreclose, typically a lending program's loan PDA. */
+  lienholder: PublicKey;
+  /** Unix seconds from which the lienholder may foreclose; before the item's expiry. */
+  deadline: BN | number;
+}
+
+export interface PledgeParams {
+  lienholder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface FractionalizeParams {
+  /** The vault's current custodian or one of its operators. */
+  custodian: PublicKey;
+  holder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  shares: BN | number;
+  /**
+   * Minimum lamports per share a custodian buyout must pay. Without one (the
+   * default, 0) the buyout price is left to the custodian.
+   */
+  buyoutFloor?: BN | number;
+}
+
+export interface RecombineParams {
+  /** Must hold every outstanding share in its associated token account. */
+  holder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface StartBuyoutParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** Lamports paid for each outstanding share. */
+  pricePerShare: BN | number;
+}
+
+export interface ClaimBuyoutParams {
+  holder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface SweepBuyoutParams {
+  /** The custodian who started the buyout. */
+  custodian: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface SetRedeemDelegateParams {
+  holder: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** Wallet allowed to redeem on the holder's behalf; `null` revokes it. */
+  delegate: PublicKey | null;
+}
+
+export interface RedeemItemParams {
+  /** The vault's current custodian or one of its operators. */
+  custodian: PublicKey;
+  redeemer: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface RequestRedemptionParams {
+  /** The claim holder or their approved redeem delegate. */
+  requester: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface FulfilRedemptionParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface CancelRedemptionParams {
+  /** The claim holder, the original requester, the custodian or an operator. */
+  authority: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface UpdateMetadataParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+  /** Replaces the current URI; `null` clears it. */
+  metadataUri: string | null;
+  /** Replaces the current hash; omit or pass `null` to clear it. */
+  metadataHash?: number[] | Uint8Array | null;
+}
+
+export interface ExpireItemParams {
+  /** The vault's current custodian or one of its operators. */
+  custodian: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface CloseItemParams {
+  /** The custodian, an operator or the wallet that paid the item's rent. */
+  authority: PublicKey;
+  vault: PublicKey;
+  itemId: string;
+}
+
+export interface CloseVaultParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+}
+
+export interface MigrateVaultParams {
+  /**
+   * Pays for the new accounts; anyone may migrate. The old account's rent
+   * goes back to the custodian.
+   */
+  payer: PublicKey;
+  /** The vault's address from before versioning. */
+  legacyVault: PublicKey;
+}
+
+export interface MigrateItemParams {
+  /** Pays for the new record; the old one's rent goes back to the depositor. */
+  payer: PublicKey;
+  /** The item's vault at its current address; it must be migrated first. */
+  vault: PublicKey;
+  /** The item's address from before versioning. */
+  legacyItem: PublicKey;
+}
+
+export interface CloseLegacyVaultParams {
+  custodian: PublicKey;
+  /** The migrated vault whose address the old one normalizes to. */
+  vault: PublicKey;
+  legacyVault: PublicKey;
+}
+
+export interface CloseLegacyItemParams {
+  custodian: PublicKey;
+  vault: PublicKey;
+  legacyItem: PublicKey;
+  /** The raw name of the item's old vault. */
+  vaultName: string;
+}
+
+/** An old account whose current address another one already takes. */
+export interface LegacyCollision {
+  legacy: PublicKey;
+  /** The current address of its vault. */
+  vault: PublicKey;
+  /** The raw name of its old vault, which `close_legacy_*` takes. */
+  vaultName: string;
+}
+
+export interface LegacyAccounts {
+  vaults: PublicKey[];
+  /** Each with the current address of its vault, migrated or not. */
+  items: { legacyItem: PublicKey; vault: PublicKey }[];
+  /**
+   * Old accounts left out of `vaults` and `items` because their name or id
+   * normalizes to the address of another account; they can only be closed.
+   */
+  collisions: { vaults: LegacyCollision[]; items: LegacyCollision[] };
+}
+
+export interface MigrateAccountsParams {
+  payer: Signer;
+  /** Caps the instructions per transaction; by default as many as fit. */
+  maxPerTransaction?: number;
+}
+
+/** The migrated accounts, by their addresses from before versioning. */
+export interface MigrationResult {
+  vaults: PublicKey[];
+  items: PublicKey[];
+  /** Accounts that could not be migrated; see `LegacyAccounts`. */
+  collisions: LegacyAccounts["collisions"];
+  signatures: string[];
+}
+
+/**
+ * Typed wrapper around the vault_receipt program. PDAs are derived from the
+ * vault name and item id so callers never build account lists by hand.
+ *
+ * Each instruction is available both as a `*Instruction` builder (for
+ * composing transactions) and as a method that signs and sends it. Program
+ * errors thrown by the latter are mapped to `VaultReceiptError`.
+ *
+ * For tokenized items the claim-token accounts are looked up on-chain and
+ * attached automatically to every instruction that needs the holder.
+ */
+export class VaultReceiptClient {
+  constructor(readonly program: Program<VaultReceipt>) {}
+
+  get programId(): PublicKey {
+    return this.program.programId;
+  }
+
+  /** `creator` is the custodian that created the vault, even after a handover. */
+  findVaultAddress(creator: PublicKey, vaultName: string): [PublicKey, number] {
+    return findVaultAddress(this.programId, creator, vaultName);
+  }
+
+  findItemAddress(vault: PublicKey, itemId: string): [PublicKey, number] {
+    return findItemAddress(this.programId, vault, itemId);
+  }
+
+  findClaimMintAddress(item: PublicKey): [PublicKey, number] {
+    return findClaimMintAddress(this.programId, item);
+  }
+
+  findShareMintAddress(item: PublicKey): [PublicKey, number] {
+    return findShareMintAddress(this.programId, item);
+  }
+
+  findTreasuryAddress(vault: PublicKey): [PublicKey, number] {
+    return findTreasuryAddress(this.programId, vault);
+  }
+
+  findAllowlistAddress(
+    vault: PublicKey,
+    wallet: PublicKey
+  ): [PublicKey, number] {
+    return findAllowlistAddress(this.programId, vault, wallet);
+  }
+
+  async fetchVault(vault: PublicKey): Promise<VaultAccount> {
+    return this.program.account.vaultAccount.fetch(vault);
+  }
+
+  async fetchItem(item: PublicKey): Promise<ItemRecord> {
+    return this.program.account.itemRecord.fetch(item);
+  }
+
+  async fetchTreasury(vault: PublicKey): Promise<VaultTreasury> {
+    return this.program.account.vaultTreasury.fetch(
+      this.findTreasuryAddress(vault)[0]
+    );
+  }
+
+  /**
+   * Fees due to redeem `item` at unix time `at` (default: the cluster's
+   * current block time). Items with a pending request have already paid.
+   */
+  async quoteRedemption(
+    item: PublicKey,
+    { at }: { at?: number } = {}
+  ): Promise<RedemptionQuote> {
+    const record = await this.fetchItem(item);
+    const { fees } = await this.fetchVault(record.vault);
+    if (at === undefined) {
+      const { connection } = this.program.provider;
+      at = (await connection.getBlockTime(await connection.getSlot())) ?? 0;
+    }
+    if (record.redemptionRequest) {
+      return {
+        storageFee: new BN(0),
+        redemptionFee: new BN(0),
+        total: new BN(0),
+        at,
+      };
+    }
+
+    const elapsed = Math.max(
+      0,
+      Math.floor(at) - record.storagePaidTs.toNumber()
+    );
+    const storageFee = fees.storageFeePerYear
+      .mul(new BN(elapsed))
+      .div(new BN(SECONDS_PER_YEAR));
+    return {
+      storageFee,
+      redemptionFee: fees.redemptionFee,
+      total: storageFee.add(fees.redemptionFee),
+      at,
+    };
+  }
+
+  /**
+   * Items issued by a vault, in issue order. Filters run on the RPC node with
+   * `memcmp`, so only matching accounts are downloaded. Items still in the
+   * layout from before versioning are left out until migrated.
+   */
+  async listItems(
+    vault: PublicKey,
+    { status }: ListItemsOptions = {}
+  ): Promise<{ publicKey: PublicKey; account: ItemRecord }[]> {
+    const filters: GetProgramAccountsFilter[] = [
+      { dataSize: ACCOUNT_SIZES.itemRecord },
+      {
+        memcmp: { offset: ITEM_RECORD_OFFSETS.vault, bytes: vault.toBase58() },
+      },
+    ];
+    if (status && status !== "outstanding") {
+      filters.push({
+        memcmp: {
+          offset: ITEM_RECORD_OFFSETS.status,
+          bytes: utils.bytes.bs58.encode([ITEM_STATUSES.indexOf(status)]),
+        },
+      });
+    }
+    // Outstanding spans three variants, which one memcmp cannot express.
+    const items = (await this.program.account.itemRecord.all(filters)).filter(
+      ({ account }) =>
+        status !== "outstanding" ||
+        ["active", "disputed", "lost"].indexOf(itemStatus(account)) >= 0
+    );
+    return items.sort((a, b) => a.account.index.cmp(b.account.index));
+  }
+
+  /**
+   * Vaults of the program, by name. With `custodian`, only the vaults that
+   * wallet currently holds custody of. Like `listItems`, skips vaults that
+   * have not been migrated yet.
+   */
+  async listVaults({ custodian }: { custodian?: PublicKey } = {}): Promise<
+    { publicKey: PublicKey; account: VaultAccount }[]
+  > {
+    const filters: GetProgramAccountsFilter[] = [
+      { dataSize: ACCOUNT_SIZES.vaultAccount },
+    ];
+    if (custodian) {
+      filters.push({
+        memcmp: {
+          offset: VAULT_ACCOUNT_OFFSETS.custodian,
+          bytes: custodian.toBase58(),
+        },
+      });
+    }
+    const vaults = await this.program.account.vaultAccount.all(filters);
+    return vaults.sort((a, b) =>
+      a.account.vaultName.localeCompare(b.account.vaultName)
+    );
+  }
+
+  /**
+   * Current claim holder: the claim token's owner for tokenized items, since
+   * `depositor` is only refreshed when the holder next acts on-chain.
+   */
+  async fetchClaimHolder(item: PublicKey): Promise<PublicKey> {
+    const record = await this.fetchItem(item);
+    const { holderTokenAccount } = await this.claimTokenAccounts(record);
+    if (!holderTokenAccount) {
+      return record.depositor;
+    }
+    const account = await this.program.provider.connection.getParsedAccountInfo(
+      holderTokenAccount
+    );
+    const data = account.value?.data;
+    if (!data || !("parsed" in data)) {
+      return record.depositor;
+    }
+    return new PublicKey(data.parsed.info.owner);
+  }
+
+  initializeVaultInstruction(
+    custodian: PublicKey,
+    vaultName: string
+  ): Promise<TransactionInstruction> {
+    return this.initializeVaultBuilder(custodian, vaultName).instruction();
+  }
+
+  async createVault({
+    custodian,
+    vaultName,
+  }: CreateVaultParams): Promise<{ signature: string; vault: PublicKey }> {
+    const [vault] = this.findVaultAddress(custodian.publicKey, vaultName);
+    const signature = await this.send(
+      this.initializeVaultBuilder(custodian.publicKey, vaultName),
+      [custodian]
+    );
+    return { signature, vault };
+  }
+
+  proposeCustodianInstruction(
+    params: ProposeCustodianParams
+  ): Promise<TransactionInstruction> {
+    return this.proposeCustodianBuilder(params).instruction();
+  }
+
+  /** First half of a custody handover; the new custodian must then call `acceptCustodian`. */
+  async proposeCustodian(
+    params: Omit<ProposeCustodianParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.proposeCustodianBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+      }),
+      [custodian]
+    );
+  }
+
+  acceptCustodianInstruction(
+    params: AcceptCustodianParams
+  ): Promise<TransactionInstruction> {
+    return this.acceptCustodianBuilder(params).instruction();
+  }
+
+  async acceptCustodian(
+    params: Omit<AcceptCustodianParams, "newCustodian"> & {
+      newCustodian: Signer;
+    }
+  ): Promise<string> {
+    const { newCustodian } = params;
+    return this.send(
+      this.acceptCustodianBuilder({
+        ...params,
+        newCustodian: newCustodian.publicKey,
+      }),
+      [newCustodian]
+    );
+  }
+
+  addOperatorInstruction(
+    params: OperatorParams
+  ): Promise<TransactionInstruction> {
+    return this.addOperatorBuilder(params).instruction();
+  }
+
+  async addOperator(
+    params: Omit<OperatorParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.addOperatorBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  removeOperatorInstruction(
+    params: OperatorParams
+  ): Promise<TransactionInstruction> {
+    return this.removeOperatorBuilder(params).instruction();
+  }
+
+  async removeOperator(
+    params: Omit<OperatorParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.removeOperatorBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  pauseVaultInstruction(
+    params: PauseVaultParams
+  ): Promise<TransactionInstruction> {
+    return this.pauseVaultBuilder(params, true).instruction();
+  }
+
+  /** Halts deposits, claim transfers, redemptions and tokenization in the vault. */
+  async pauseVault(
+    params: Omit<PauseVaultParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.pauseVaultBuilder(
+        { ...params, custodian: custodian.publicKey },
+        true
+      ),
+      [custodian]
+    );
+  }
+
+  unpauseVaultInstruction(
+    params: PauseVaultParams
+  ): Promise<TransactionInstruction> {
+    return this.pauseVaultBuilder(params, false).instruction();
+  }
+
+  async unpauseVault(
+    params: Omit<PauseVaultParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.pauseVaultBuilder(
+        { ...params, custodian: custodian.publicKey },
+        false
+      ),
+      [custodian]
+    );
+  }
+
+  setFeeScheduleInstruction(
+    params: SetFeeScheduleParams
+  ): Promise<TransactionInstruction> {
+    return this.setFeeScheduleBuilder(params).instruction();
+  }
+
+  async setFeeSchedule(
+    params: Omit<SetFeeScheduleParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.setFeeScheduleBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  withdrawFeesInstruction(
+    params: WithdrawFeesParams
+  ): Promise<TransactionInstruction> {
+    return this.withdrawFeesBuilder(params).instruction();
+  }
+
+  /** Moves collected fees out of the vault treasury. */
+  async withdrawFees(
+    params: Omit<WithdrawFeesParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.withdrawFeesBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  setAllowlistInstruction(
+    params: SetAllowlistParams
+  ): Promise<TransactionInstruction> {
+    return this.setAllowlistBuilder(params).instruction();
+  }
+
+  /**
+   * Turns allowlist mode on or off. While it is on, depositors, claim
+   * recipients and redeemers need an unexpired approval from `approveWallet`.
+   */
+  async setAllowlist(
+    params: Omit<SetAllowlistParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.setAllowlistBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  approveWalletInstruction(
+    params: ApproveWalletParams
+  ): Promise<TransactionInstruction> {
+    return this.approveWalletBuilder(params).instruction();
+  }
+
+  async approveWallet(
+    params: Omit<ApproveWalletParams, "authority"> & { authority: Signer }
+  ): Promise<string> {
+    const { authority } = params;
+    return this.send(
+      this.approveWalletBuilder({ ...params, authority: authority.publicKey }),
+      [authority]
+    );
+  }
+
+  revokeWalletInstruction(
+    params: RevokeWalletParams
+  ): Promise<TransactionInstruction> {
+    return this.revokeWalletBuilder(params).instruction();
+  }
+
+  async revokeWallet(
+    params: Omit<RevokeWalletParams, "authority"> & { authority: Signer }
+  ): Promise<string> {
+    const { authority } = params;
+    return this.send(
+      this.revokeWalletBuilder({ ...params, authority: authority.publicKey }),
+      [authority]
+    );
+  }
+
+  /** The wallet's approval in the vault, or `null` if it has none. */
+  async fetchAllowlistEntry(
+    vault: PublicKey,
+    wallet: PublicKey
+  ): Promise<AllowlistEntry | null> {
+    return this.program.account.allowlistEntry.fetchNullable(
+      this.findAllowlistAddress(vault, wallet)[0]
+    );
+  }
+
+  setAuditorInstruction(
+    params: SetAuditorParams
+  ): Promise<TransactionInstruction> {
+    return this.setAuditorBuilder(params).instruction();
+  }
+
+  async setAuditor(
+    params: Omit<SetAuditorParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.setAuditorBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  /**
+   * Tree over the ids of the vault's outstanding items, in issue order,
+   * leaving out items declared lost. The auditor builds it after checking the
+   * physical inventory and submits its root; keep it (or its `itemIds`) to
+   * hand out proofs later, since the on-chain item list moves on.
+   */
+  async buildAttestationTree(vault: PublicKey): Promise<AttestationTree> {
+    const items = await this.listItems(vault, { status: "outstanding" });
+    return new AttestationTree(
+      items
+        .filter(({ account }) => itemStatus(account) !== "lost")
+        .map(({ account }) => account.itemId)
+    );
+  }
+
+  submitAttestationInstruction(
+    params: SubmitAttestationParams
+  ): Promise<TransactionInstruction> {
+    return this.submitAttestationBuilder(params).instruction();
+  }
+
+  async submitAttestation(
+    params: Omit<SubmitAttestationParams, "auditor"> & { auditor: Signer }
+  ): Promise<string> {
+    const { auditor } = params;
+    return this.send(
+      this.submitAttestationBuilder({ ...params, auditor: auditor.publicKey }),
+      [auditor]
+    );
+  }
+
+  verifyItemInstruction(
+    params: VerifyItemParams
+  ): Promise<TransactionInstruction> {
+    return this.verifyItemBuilder(params).instruction();
+  }
+
+  /** Records on the item that the latest attestation included it. */
+  async verifyItem(
+    params: Omit<VerifyItemParams, "authority"> & { authority: Signer }
+  ): Promise<string> {
+    const { authority } = params;
+    return this.send(
+      this.verifyItemBuilder({ ...params, authority: authority.publicKey }),
+      [authority]
+    );
+  }
+
+  async freezeItemInstruction(
+    params: FreezeItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.freezeItemBuilder(params, true)).instruction();
+  }
+
+  /** Blocks transfers and redemption of a disputed item, including wallet transfers of its claim token. */
+  async freezeItem(
+    params: Omit<FreezeItemParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.freezeItemBuilder(
+        { ...params, custodian: custodian.publicKey },
+        true
+      ),
+      [custodian]
+    );
+  }
+
+  async unfreezeItemInstruction(
+    params: FreezeItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.freezeItemBuilder(params, false)).instruction();
+  }
+
+  async unfreezeItem(
+    params: Omit<FreezeItemParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.freezeItemBuilder(
+        { ...params, custodian: custodian.publicKey },
+        false
+      ),
+      [custodian]
+    );
+  }
+
+  async raiseDisputeInstruction(
+    params: RaiseDisputeParams
+  ): Promise<TransactionInstruction> {
+    return (await this.raiseDisputeBuilder(params)).instruction();
+  }
+
+  /** Holder flags a problem with the item; the claim is locked until the custodian resolves it. */
+  async raiseDispute(
+    params: Omit<RaiseDisputeParams, "holder"> & { holder: Signer }
+  ): Promise<string> {
+    const { holder } = params;
+    return this.send(
+      this.raiseDisputeBuilder({ ...params, holder: holder.publicKey }),
+      [holder]
+    );
+  }
+
+  async declareLossInstruction(
+    params: ResolveItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.resolveItemBuilder(params, "declareLoss")).instruction();
+  }
+
+  /** Marks an active or disputed item lost; the claim stays locked until compensated or found. */
+  async declareLoss(
+    params: Omit<ResolveItemParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.resolveItemBuilder(
+        { ...params, custodian: custodian.publicKey },
+        "declareLoss"
+      ),
+      [custodian]
+    );
+  }
+
+  async resolveDisputeInstruction(
+    params: ResolveItemParams
+  ): Promise<TransactionInstruction> {
+    return (
+      await this.resolveItemBuilder(params, "resolveDispute")
+    ).instruction();
+  }
+
+  /** Returns a disputed or lost item to active and unlocks its claim. */
+  async resolveDispute(
+    params: Omit<ResolveItemParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.resolveItemBuilder(
+        { ...params, custodian: custodian.publicKey },
+        "resolveDispute"
+      ),
+      [custodian]
+    );
+  }
+
+  async compensateItemInstruction(
+    params: ResolveItemParams
+  ): Promise<TransactionInstruction> {
+    return (
+      await this.resolveItemBuilder(params, "compensateItem")
+    ).instruction();
+  }
+
+  /** Retires a lost item once its holder has been paid off-chain; a claim token is burned. */
+  async compensateItem(
+    params: Omit<ResolveItemParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.resolveItemBuilder(
+        { ...params, custodian: custodian.publicKey },
+        "compensateItem"
+      ),
+      [custodian]
+    );
+  }
+
+  /** Builds the deposit alone; pair it with `tokenizeClaimInstruction` to mint a claim token. */
+  async depositAndIssueInstruction(
+    params: Omit<DepositAndIssueParams, "token">
+  ): Promise<TransactionInstruction> {
+    return (await this.depositAndIssueBuilder(params)).instruction();
+  }
+
+  async depositAndIssue(
+    params: Omit<DepositAndIssueParams, "custodian" | "depositor"> & {
+      custodian: Signer;
+      depositor: Signer;
+    }
+  ): Promise<{
+    signature: string;
+    item: PublicKey;
+    claimMint: PublicKey | null;
+  }> {
+    const { custodian, depositor } = params;
+    const [item] = this.findItemAddress(params.vault, params.itemId);
+    const signature = await this.send(
+      this.depositAndIssueBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+        depositor: depositor.publicKey,
+      }),
+      [custodian, depositor]
+    );
+    const claimMint = params.token ? this.findClaimMintAddress(item)[0] : null;
+    return { signature, item, claimMint };
+  }
+
+  /**
+   * Issues many items with as few transactions as possible: rows are packed
+   * into v0 transactions up to the packet size limit, each signed by the
+   * custodian and the depositors of its rows. When a transaction fails its
+   * rows are retried one by one, so every row gets its own result.
+   */
+  async depositAndIssueBatch({
+    custodian,
+    vault,
+    rows,
+    depositors,
+    lookupTables = [],
+    maxPerTransaction,
+  }: DepositAndIssueBatchParams): Promise<BatchDepositResult[]> {
+    const signers = new Map<string, Signer>();
+    depositors.forEach((signer) =>
+      signers.set(signer.publicKey.toBase58(), signer)
+    );
+
+    const results: BatchDepositResult[] = rows.map(({ itemId }) => ({
+      itemId,
+      item: this.findItemAddress(vault, itemId)[0],
+      signature: null,
+      error: null,
+    }));
+    const pending: { index: number; instruction: TransactionInstruction }[] =
+      [];
+    for (let index = 0; index < rows.length; index++) {
+      const row = rows[index];
+      if (!signers.has(row.depositor.toBase58())) {
+        results[index].error = new Error(
+          `No signer for depositor ${row.depositor.toBase58()}`
+        );
+        continue;
+      }
+      const instruction = await this.depositAndIssueInstruction({
+        ...row,
+        custodian: custodian.publicKey,
+        vault,
+      });
+      pending.push({ index, instruction });
+    }
+
+    const groups = packInstructions(
+      pending.map(({ instruction }) => instruction),
+      custodian.publicKey,
+      { lookupTables, maxPerTransaction }
+    );
+    let offset = 0;
+    for (const group of groups) {
+      const entries = pending.slice(offset, offset + group.length);
+      offset += group.length;
+
+      const send = (batch: typeof entries) =>
+        this.sendVersioned(
+          batch.map(({ instruction }) => instruction),
+          [
+            custodian,
+            ...batch.map(
+              ({ index }) => signers.get(rows[index].depositor.toBase58())!
+            ),
+          ],
+          lookupTables
+        );
+      try {
+        const signature = await send(entries);
+        entries.forEach(({ index }) => (results[index].signature = signature));
+      } catch (err) {
+        if (entries.length === 1) {
+          results[entries[0].index].error = err;
+          continue;
+        }
+        for (const entry of entries) {
+          try {
+            results[entry.index].signature = await send([entry]);
+          } catch (rowErr) {
+            results[entry.index].error = rowErr;
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  tokenizeClaimInstruction(
+    params: TokenizeClaimParams
+  ): Promise<TransactionInstruction> {
+    return this.tokenizeClaimBuilder(params).instruction();
+  }
+
+  async tokenizeClaim(
+    params: Omit<TokenizeClaimParams, "custodian" | "holder"> & {
+      custodian: Signer;
+      holder: Signer;
+    }
+  ): Promise<{ signature: string; claimMint: PublicKey }> {
+    const { custodian, holder } = params;
+    const [item] = this.findItemAddress(params.vault, params.itemId);
+    const signature = await this.send(
+      this.tokenizeClaimBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+        holder: holder.publicKey,
+      }),
+      [custodian, holder]
+    );
+    return { signature, claimMint: this.findClaimMintAddress(item)[0] };
+  }
+
+  async transferClaimInstruction(
+    params: TransferClaimParams
+  ): Promise<TransactionInstruction> {
+    return (await this.transferClaimBuilder(params)).instruction();
+  }
+
+  async transferClaim(
+    params: Omit<TransferClaimParams, "currentOwner"> & { currentOwner: Signer }
+  ): Promise<string> {
+    const { currentOwner } = params;
+    return this.send(
+      this.transferClaimBuilder({
+        ...params,
+        currentOwner: currentOwner.publicKey,
+      }),
+      [currentOwner]
+    );
+  }
+
+  listClaimInstruction(
+    params: ListClaimParams
+  ): Promise<TransactionInstruction> {
+    return this.listClaimBuilder(params).instruction();
+  }
+
+  /** Offers the claim for sale; while listed it cannot be transferred, redeemed or tokenized. */
+  async listClaim(
+    params: Omit<ListClaimParams, "seller"> & { seller: Signer }
+  ): Promise<string> {
+    const { seller } = params;
+    return this.send(
+      this.listClaimBuilder({ ...params, seller: seller.publicKey }),
+      [seller]
+    );
+  }
+
+  async buyClaimInstruction(
+    params: BuyClaimParams
+  ): Promise<TransactionInstruction> {
+    return (await this.buyClaimBuilder(params)).instruction();
+  }
+
+  /**
+   * Pays the seller and takes over the claim atomically. For token-priced
+   * listings payment moves between the buyer's and the seller's associated
+   * token accounts, so the seller's account must already exist.
+   */
+  async buyClaim(
+    params: Omit<BuyClaimParams, "buyer"> & { buyer: Signer }
+  ): Promise<string> {
+    const { buyer } = params;
+    return this.send(
+      this.buyClaimBuilder({ ...params, buyer: buyer.publicKey }),
+      [buyer]
+    );
+  }
+
+  delistClaimInstruction(
+    params: DelistClaimParams
+  ): Promise<TransactionInstruction> {
+    return this.delistClaimBuilder(params).instruction();
+  }
+
+  async delistClaim(
+    params: Omit<DelistClaimParams, "seller"> & { seller: Signer }
+  ): Promise<string> {
+    const { seller } = params;
+    return this.send(
+      this.delistClaimBuilder({ ...params, seller: seller.publicKey }),
+      [seller]
+    );
+  }
+
+  pledgeClaimInstruction(
+    params: PledgeClaimParams
+  ): Promise<TransactionInstruction> {
+    return this.pledgeClaimBuilder(params).instruction();
+  }
+
+  /** Pledges the claim as collateral; while pledged it cannot be transferred, sold or redeemed. */
+  async pledgeClaim(
+    params: Omit<PledgeClaimParams, "holder"> & { holder: Signer }
+  ): Promise<string> {
+    const { holder } = params;
+    return this.send(
+      this.pledgeClaimBuilder({ ...params, holder: holder.publicKey }),
+      [holder]
+    );
+  }
+
+  releasePledgeInstruction(
+    params: PledgeParams
+  ): Promise<TransactionInstruction> {
+    return this.releasePledgeBuilder(params).instruction();
+  }
+
+  async releasePledge(
+    params: Omit<PledgeParams, "lienholder"> & { lienholder: Signer }
+  ): Promise<string> {
+    const { lienholder } = params;
+    return this.send(
+      this.releasePledgeBuilder({
+        ...params,
+        lienholder: lienholder.publicKey,
+      }),
+      [lienholder]
+    );
+  }
+
+  async forecloseInstruction(
+    params: PledgeParams
+  ): Promise<TransactionInstruction> {
+    return (await this.forecloseBuilder(params)).instruction();
+  }
+
+  /** Takes a pledged claim once its deadline has passed; the lienholder becomes the holder. */
+  async foreclose(
+    params: Omit<PledgeParams, "lienholder"> & { lienholder: Signer }
+  ): Promise<string> {
+    const { lienholder } = params;
+    return this.send(
+      this.forecloseBuilder({ ...params, lienholder: lienholder.publicKey }),
+      [lienholder]
+    );
+  }
+
+  fractionalizeInstruction(
+    params: FractionalizeParams
+  ): Promise<TransactionInstruction> {
+    return this.fractionalizeBuilder(params).instruction();
+  }
+
+  /**
+   * Splits the claim into `shares` fungible Token-2022 shares, all minted to
+   * the holder's associated token account. The supply is fixed; the claim can
+   * only be made whole again by `recombine` or a custodian buyout.
+   */
+  async fractionalize(
+    params: Omit<FractionalizeParams, "custodian" | "holder"> & {
+      custodian: Signer;
+      holder: Signer;
+    }
+  ): Promise<{ signature: string; shareMint: PublicKey }> {
+    const { custodian, holder } = params;
+    const [item] = this.findItemAddress(params.vault, params.itemId);
+    const signature = await this.send(
+      this.fractionalizeBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+        holder: holder.publicKey,
+      }),
+      [custodian, holder]
+    );
+    return { signature, shareMint: this.findShareMintAddress(item)[0] };
+  }
+
+  async recombineInstruction(
+    params: RecombineParams
+  ): Promise<TransactionInstruction> {
+    return (await this.recombineBuilder(params)).instruction();
+  }
+
+  /** Burns every share and makes the signer the item's sole claim holder. */
+  async recombine(
+    params: Omit<RecombineParams, "holder"> & { holder: Signer }
+  ): Promise<string> {
+    const { holder } = params;
+    return this.send(
+      this.recombineBuilder({ ...params, holder: holder.publicKey }),
+      [holder]
+    );
+  }
+
+  startBuyoutInstruction(
+    params: StartBuyoutParams
+  ): Promise<TransactionInstruction> {
+    return this.startBuyoutBuilder(params).instruction();
+  }
+
+  /**
+   * Buys a fractionalized item out: the custodian escrows `pricePerShare`,
+   * no less than the item's `buyoutFloor`, for every outstanding share and
+   * the item is marked redeemed.
+   */
+  async startBuyout(
+    params: Omit<StartBuyoutParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.startBuyoutBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+      }),
+      [custodian]
+    );
+  }
+
+  claimBuyoutInstruction(
+    params: ClaimBuyoutParams
+  ): Promise<TransactionInstruction> {
+    return this.claimBuyoutBuilder(params).instruction();
+  }
+
+  /** Burns the holder's shares of a bought-out item in exchange for their part of the price. */
+  async claimBuyout(
+    params: Omit<ClaimBuyoutParams, "holder"> & { holder: Signer }
+  ): Promise<string> {
+    const { holder } = params;
+    return this.send(
+      this.claimBuyoutBuilder({ ...params, holder: holder.publicKey }),
+      [holder]
+    );
+  }
+
+  sweepBuyoutInstruction(
+    params: SweepBuyoutParams
+  ): Promise<TransactionInstruction> {
+    return this.sweepBuyoutBuilder(params).instruction();
+  }
+
+  /**
+   * Returns the escrow of unclaimed shares to the custodian, once no share is
+   * left in circulation or the claim period is over; the item can then be
+   * closed.
+   */
+  async sweepBuyout(
+    params: Omit<SweepBuyoutParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.sweepBuyoutBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+      }),
+      [custodian]
+    );
+  }
+
+  async setRedeemDelegateInstruction(
+    params: SetRedeemDelegateParams
+  ): Promise<TransactionInstruction> {
+    return (await this.setRedeemDelegateBuilder(params)).instruction();
+  }
+
+  async setRedeemDelegate(
+    params: Omit<SetRedeemDelegateParams, "holder"> & { holder: Signer }
+  ): Promise<string> {
+    const { holder } = params;
+    return this.send(
+      this.setRedeemDelegateBuilder({ ...params, holder: holder.publicKey }),
+      [holder]
+    );
+  }
+
+  async redeemItemInstruction(
+    params: RedeemItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.redeemItemBuilder(params)).instruction();
+  }
+
+  async redeemItem(
+    params: Omit<RedeemItemParams, "custodian" | "redeemer"> & {
+      custodian: Signer;
+      redeemer: Signer;
+    }
+  ): Promise<string> {
+    const { custodian, redeemer } = params;
+    return this.send(
+      this.redeemItemBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+        redeemer: redeemer.publicKey,
+      }),
+      [custodian, redeemer]
+    );
+  }
+
+  async requestRedemptionInstruction(
+    params: RequestRedemptionParams
+  ): Promise<TransactionInstruction> {
+    return (await this.requestRedemptionBuilder(params)).instruction();
+  }
+
+  async requestRedemption(
+    params: Omit<RequestRedemptionParams, "requester"> & { requester: Signer }
+  ): Promise<string> {
+    const { requester } = params;
+    return this.send(
+      this.requestRedemptionBuilder({
+        ...params,
+        requester: requester.publicKey,
+      }),
+      [requester]
+    );
+  }
+
+  async fulfilRedemptionInstruction(
+    params: FulfilRedemptionParams
+  ): Promise<TransactionInstruction> {
+    return (await this.fulfilRedemptionBuilder(params)).instruction();
+  }
+
+  async fulfilRedemption(
+    params: Omit<FulfilRedemptionParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.fulfilRedemptionBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+      }),
+      [custodian]
+    );
+  }
+
+  async cancelRedemptionInstruction(
+    params: CancelRedemptionParams
+  ): Promise<TransactionInstruction> {
+    return (await this.cancelRedemptionBuilder(params)).instruction();
+  }
+
+  async cancelRedemption(
+    params: Omit<CancelRedemptionParams, "authority"> & { authority: Signer }
+  ): Promise<string> {
+    const { authority } = params;
+    return this.send(
+      this.cancelRedemptionBuilder({
+        ...params,
+        authority: authority.publicKey,
+      }),
+      [authority]
+    );
+  }
+
+  async updateMetadataInstruction(
+    params: UpdateMetadataParams
+  ): Promise<TransactionInstruction> {
+    return (await this.updateMetadataBuilder(params)).instruction();
+  }
+
+  /** Corrects or re-certifies an item's metadata; a claim token's URI is updated too. */
+  async updateMetadata(
+    params: Omit<UpdateMetadataParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.updateMetadataBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  /**
+   * Reads a local certificate file and checks it against the hash recorded
+   * on-chain for the item.
+   */
+  async verifyMetadataFile(
+    item: PublicKey,
+    path: string
+  ): Promise<MetadataVerification> {
+    return verifyMetadataFile(await this.fetchItem(item), path);
+  }
+
+  async expireItemInstruction(
+    params: ExpireItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.expireItemBuilder(params)).instruction();
+  }
+
+  /** Retires an item whose `expiresAt` has passed; a claim token is burned. */
+  async expireItem(
+    params: Omit<ExpireItemParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.expireItemBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  async closeItemInstruction(
+    params: CloseItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.closeItemBuilder(params)).instruction();
+  }
+
+  /** Closes a redeemed item; its rent goes back to the wallet that paid for it. */
+  async closeItem(
+    params: Omit<CloseItemParams, "authority"> & { authority: Signer }
+  ): Promise<string> {
+    const { authority } = params;
+    return this.send(
+      this.closeItemBuilder({ ...params, authority: authority.publicKey }),
+      [authority]
+    );
+  }
+
+  async closeVaultInstruction(
+    params: CloseVaultParams
+  ): Promise<TransactionInstruction> {
+    return (await this.closeVaultBuilder(params)).instruction();
+  }
+
+  /** Closes a vault whose items have all been closed; its rent goes back to the creator. */
+  async closeVault(
+    params: Omit<CloseVaultParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.closeVaultBuilder({ ...params, custodian: custodian.publicKey }),
+      [custodian]
+    );
+  }
+
+  async migrateVaultInstruction(
+    params: MigrateVaultParams
+  ): Promise<TransactionInstruction> {
+    return (await this.migrateVaultBuilder(params)).instruction();
+  }
+
+  /**
+   * Moves a vault from before layout versioning to its current address, in
+   * the current layout.
+   */
+  async migrateVault(
+    params: Omit<MigrateVaultParams, "payer"> & { payer: Signer }
+  ): Promise<string> {
+    const { payer } = params;
+    return this.send(
+      this.migrateVaultBuilder({ ...params, payer: payer.publicKey }),
+      [payer]
+    );
+  }
+
+  async migrateItemInstruction(
+    params: MigrateItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.migrateItemBuilder(params)).instruction();
+  }
+
+  /** Moves an item from before layout versioning; migrate its vault first. */
+  async migrateItem(
+    params: Omit<MigrateItemParams, "payer"> & { payer: Signer }
+  ): Promise<string> {
+    const { payer } = params;
+    return this.send(
+      this.migrateItemBuilder({ ...params, payer: payer.publicKey }),
+      [payer]
+    );
+  }
+
+  /**
+   * Vaults and items still in the layout from before versioning, found by
+   * their size. `fetchVault`, `fetchItem` and the list methods cannot decode
+   * them until they are migrated. Old names and ids that differ only in case
+   * or spacing normalize to one address, so only the first of them (or none,
+   * if a current account already holds it) is listed for migration; the
+   * others are returned as `collisions`.
+   */
+  async findLegacyAccounts(): Promise<LegacyAccounts> {
+    const { connection } = this.program.provider;
+    const { programId } = this.program;
+    const find = (account: "vaultAccount" | "itemRecord") =>
+      connection.getProgramAccounts(programId, {
+        filters: [
+          { memcmp: this.program.coder.accounts.memcmp(account) },
+          { dataSize: LEGACY_ACCOUNT_SIZES[account] },
+        ],
+      });
+    const [vaults, items] = await Promise.all([
+      find("vaultAccount"),
+      find("itemRecord"),
+    ]);
+    const collisions: LegacyAccounts["collisions"] = { vaults: [], items: [] };
+
+    // The raw name each current vault address carries (or will carry once
+    // migrated); `migrate_item` finds an item's old vault from that name.
+    const current = await this.listVaults();
+    const names = new Map<string, string>();
+    for (const { publicKey, account } of current) {
+      names.set(publicKey.toBase58(), account.vaultName);
+    }
+    const legacyVaults: PublicKey[] = [];
+    const candidates = vaults.map(({ pubkey, account }) => {
+      const { custodian, vaultName } = decodeLegacyVault(account.data);
+      const [vault] = this.findVaultAddress(custodian, vaultName);
+      if (names.has(vault.toBase58())) {
+        collisions.vaults.push({ legacy: pubkey, vault, vaultName });
+      } else {
+        names.set(vault.toBase58(), vaultName);
+        legacyVaults.push(pubkey);
+      }
+      return { custodian, vaultName, vault };
+    });
+    for (const { publicKey, account } of current) {
+      candidates.push({
+        custodian: account.creator,
+        vaultName: account.vaultName,
+        vault: publicKey,
+      });
+    }
+
+    // Old items do not record their vault. Each is matched by address against
+    // the old addresses of its custodian's vaults, migrated ones included.
+    const legacyItems: LegacyAccounts["items"] = [];
+    const taken = new Set<string>();
+    for (const { pubkey, account } of items) {
+      const { itemId, custodian } = decodeLegacyItem(account.data);
+      const match = candidates.find((candidate) => {
+        if (!candidate.custodian.equals(custodian)) {
+          return false;
+        }
+        const legacyVault = findLegacyVaultAddress(
+          programId,
+          candidate.custodian,
+          candidate.vaultName
+        );
+        const legacyItem =
+          legacyVault && findLegacyItemAddress(programId, legacyVault, itemId);
+        return legacyItem !== null && legacyItem.equals(pubkey);
+      });
+      // An item whose vault was closed has nowhere to move to.
+      if (!match) {
+        continue;
+      }
+      const { vault, vaultName } = match;
+      const address = this.findItemAddress(vault, itemId)[0].toBase58();
+      if (names.get(vault.toBase58()) !== vaultName || taken.has(address)) {
+        collisions.items.push({ legacy: pubkey, vault, vaultName });
+      } else {
+        taken.add(address);
+        legacyItems.push({ legacyItem: pubkey, vault });
+      }
+    }
+    return { vaults: legacyVaults, items: legacyItems, collisions };
+  }
+
+  /**
+   * Migrates every account found by `findLegacyAccounts`, vaults first since
+   * `migrate_item` needs its vault at the current address. Instructions are
+   * packed into as few v0 transactions as fit, all paid for by `payer`.
+   */
+  async migrateAccounts({
+    payer,
+    maxPerTransaction,
+  }: MigrateAccountsParams): Promise<MigrationResult> {
+    const { vaults, items, collisions } = await this.findLegacyAccounts();
+    const signatures: string[] = [];
+    const run = async (instructions: TransactionInstruction[]) => {
+      const groups = packInstructions(instructions, payer.publicKey, {
+        maxPerTransaction,
+      });
+      for (const group of groups) {
+        signatures.push(await this.sendVersioned(group, [payer], []));
+      }
+    };
+
+    await run(
+      await Promise.all(
+        vaults.map((legacyVault) =>
+          this.migrateVaultInstruction({ payer: payer.publicKey, legacyVault })
+        )
+      )
+    );
+    await run(
+      await Promise.all(
+        items.map(({ legacyItem, vault }) =>
+          this.migrateItemInstruction({
+            payer: payer.publicKey,
+            vault,
+            legacyItem,
+          })
+        )
+      )
+    );
+    return {
+      vaults,
+      items: items.map(({ legacyItem }) => legacyItem),
+      collisions,
+      signatures,
+    };
+  }
+
+  async closeLegacyVaultInstruction(
+    params: CloseLegacyVaultParams
+  ): Promise<TransactionInstruction> {
+    return (await this.closeLegacyVaultBuilder(params)).instruction();
+  }
+
+  /**
+   * Closes an old vault that collides with a migrated one, in place; its rent
+   * goes back to the creator.
+   */
+  async closeLegacyVault(
+    params: Omit<CloseLegacyVaultParams, "custodian"> & { custodian: Signer }
+  ): Promise<string> {
+    const { custodian } = params;
+    return this.send(
+      this.closeLegacyVaultBuilder({
+        ...params,
+        custodian: custodian.publicKey,
+      }),
+      [custodian]
+    );
+  }
+
+  async closeLegacyItemInstruction(
+    params: CloseLegacyItemParams
+  ): Promise<TransactionInstruction> {
+    return (await this.closeLegacyItemBuilder(params)).instruction();
+  }
+
+  /**
+   * Closes an old item that cannot be migrated, in place. The depositor
+   * co-signs and gets the rent back; an item not yet redeemed is handed back
+   * to them.
+   */
+  async closeLegacyItem(
+    params: Omit<CloseLegacyItemParams, "custodian"> & {
+      custodian: Signer;
+      depositor: Signer;
+    }
+  ): Promise<string> {
+    const { custodian, depositor, ...rest } = params;
+    return this.send(
+      this.closeLegacyItemBuilder({
+        ...rest,
+        custodian: custodian.publicKey,
+      }),
+      [custodian, depositor]
+    );
+  }
+
+  private initializeVaultBuilder(custodian: PublicKey, vaultName: string) {
+    const [vault] = this.findVaultAddress(custodian, vaultName);
+    return this.program.methods.initializeVault(vaultName).accountsPartial({
+      custodian,
+      vault,
+      treasury: this.findTreasuryAddress(vault)[0],
+      systemProgram: SystemProgram.programId,
+    });
+  }
+
+  private proposeCustodianBuilder({
+    custodian,
+    vault,
+    newCustodian,
+  }: ProposeCustodianParams) {
+    return this.program.methods
+      .proposeCustodian(newCustodian)
+      .accountsPartial({ custodian, vault });
+  }
+
+  private acceptCustodianBuilder({
+    newCustodian,
+    vault,
+  }: AcceptCustodianParams) {
+    return this.program.methods
+      .acceptCustodian()
+      .accountsPartial({ newCustodian, vault });
+  }
+
+  private addOperatorBuilder({ custodian, vault, operator }: OperatorParams) {
+    return this.program.methods
+      .addOperator(operator)
+      .accountsPartial({ custodian, vault });
+  }
+
+  private removeOperatorBuilder({
+    custodian,
+    vault,
+    operator,
+  }: OperatorParams) {
+    return this.program.methods
+      .removeOperator(operator)
+      .accountsPartial({ custodian, vault });
+  }
+
+  private pauseVaultBuilder(
+    { custodian, vault }: PauseVaultParams,
+    paused: boolean
+  ) {
+    const method = paused
+      ? this.program.methods.pauseVault()
+      : this.program.methods.unpauseVault();
+    return method.accountsPartial({ custodian, vault });
+  }
+
+  private setFeeScheduleBuilder({
+    custodian,
+    vault,
+    fees,
+  }: SetFeeScheduleParams) {
+    return this.program.methods
+      .setFeeSchedule({
+        issuanceFee: new BN(fees.issuanceFee ?? 0),
+        storageFeePerYear: new BN(fees.storageFeePerYear ?? 0),
+        redemptionFee: new BN(fees.redemptionFee ?? 0),
+      })
+      .accountsPartial({ custodian, vault });
+  }
+
+  private withdrawFeesBuilder({
+    custodian,
+    vault,
+    amount,
+    destination,
+  }: WithdrawFeesParams) {
+    return this.program.methods.withdrawFees(new BN(amount)).accountsPartial({
+      custodian,
+      vault,
+      treasury: this.findTreasuryAddress(vault)[0],
+      destination: destination ?? custodian,
+    });
+  }
+
+  private setAllowlistBuilder({
+    custodian,
+    vault,
+    enabled,
+    complianceAuthority,
+  }: SetAllowlistParams) {
+    return this.program.methods
+      .setAllowlist(enabled, complianceAuthority ?? null)
+      .accountsPartial({ custodian, vault });
+  }
+
+  private approveWalletBuilder({
+    authority,
+    vault,
+    wallet,
+    expiresAt,
+  }: ApproveWalletParams) {
+    return this.program.methods
+      .approveWallet(
+        wallet,
+        expiresAt === undefined || expiresAt === null ? null : new BN(expiresAt)
+      )
+      .accountsPartial({
+        authority,
+        vault,
+        allowlistEntry: this.findAllowlistAddress(vault, wallet)[0],
+        systemProgram: SystemProgram.programId,
+      });
+  }
+
+  private revokeWalletBuilder({
+    authority,
+    vault,
+    wallet,
+  }: RevokeWalletParams) {
+    return this.program.methods.revokeWallet().accountsPartial({
+      authority,
+      vault,
+      allowlistEntry: this.findAllowlistAddress(vault, wallet)[0],
+    });
+  }
+
+  private setAuditorBuilder({ custodian, vault, auditor }: SetAuditorParams) {
+    return this.program.methods
+      .setAuditor(auditor)
+      .accountsPartial({ custodian, vault });
+  }
+
+  private submitAttestationBuilder({
+    auditor,
+    vault,
+    itemCount,
+    merkleRoot,
+  }: SubmitAttestationParams) {
+    return this.program.methods
+      .submitAttestation(new BN(itemCount), merkleRoot)
+      .accountsPartial({ auditor, vault });
+  }
+
+  private verifyItemBuilder({
+    authority,
+    vault,
+    itemId,
+    proof,
+  }: VerifyItemParams) {
+    return this.program.methods.verifyItem(proof).accountsPartial({
+      authority,
+      vault,
+      item: this.findItemAddress(vault, itemId)[0],
+    });
+  }
+
+  private async freezeItemBuilder(
+    { custodian, vault, itemId }: FreezeItemParams,
+    frozen: boolean
+  ) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const method = frozen
+      ? this.program.methods.freezeItem()
+      : this.program.methods.unfreezeItem();
+    return method.accountsPartial({
+      custodian,
+      vault,
+      item,
+      ...(await this.claimTokenAccounts(item)),
+    });
+  }
+
+  private async raiseDisputeBuilder({
+    holder,
+    vault,
+    itemId,
+    reason,
+  }: RaiseDisputeParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.raiseDispute(reason).accountsPartial({
+      holder,
+      vault,
+      item,
+      ...(await this.claimTokenAccounts(item)),
+    });
+  }
+
+  private async resolveItemBuilder(
+    { custodian, vault, itemId, note }: ResolveItemParams,
+    method: "declareLoss" | "resolveDispute" | "compensateItem"
+  ) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods[method](note).accountsPartial({
+      custodian,
+      vault,
+      item,
+      ...(await this.claimTokenAccounts(item)),
+    });
+  }
+
+  private async depositAndIssueBuilder({
+    custodian,
+    depositor,
+    vault,
+    itemId,
+    metadataUri,
+    metadataHash,
+    timeLocks = {},
+    token,
+  }: DepositAndIssueParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const optionalBN = (value?: BN | number | null) =>
+      value === undefined || value === null ? null : new BN(value);
+    const builder = this.program.methods
+      .depositAndIssue(
+        itemId,
+        metadataUri ?? null,
+        metadataHash ? Array.from(metadataHash) : null,
+        {
+          transferableAfter: optionalBN(timeLocks.transferableAfter),
+          redeemableAfter: optionalBN(timeLocks.redeemableAfter),
+          expiresAt: optionalBN(timeLocks.expiresAt),
+        }
+      )
+      .accountsPartial({
+        custodian,
+        depositor,
+        vault,
+        item,
+        treasury: this.findTreasuryAddress(vault)[0],
+        systemProgram: SystemProgram.programId,
+        allowlistEntry: await this.allowlistEntry(vault, depositor),
+      });
+    if (!token) {
+      return builder;
+    }
+    const tokenize = await this.tokenizeClaimBuilder({
+      ...token,
+      custodian,
+      holder: depositor,
+      vault,
+      itemId,
+    }).instruction();
+    return builder.postInstructions([tokenize]);
+  }
+
+  private tokenizeClaimBuilder({
+    custodian,
+    holder,
+    vault,
+    itemId,
+    name,
+    symbol,
+  }: TokenizeClaimParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const [claimMint] = this.findClaimMintAddress(item);
+    return this.program.methods.tokenizeClaim(name, symbol).accountsPartial({
+      custodian,
+      holder,
+      vault,
+      item,
+      claimMint,
+      holderTokenAccount: getAssociatedTokenAddressSync(
+        claimMint,
+        holder,
+        false,
+        TOKEN_2022_PROGRAM_ID
+      ),
+      tokenProgram: TOKEN_2022_PROGRAM_ID,
+      associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+      systemProgram: SystemProgram.programId,
+    });
+  }
+
+  private async transferClaimBuilder({
+    currentOwner,
+    vault,
+    itemId,
+    newOwner,
+  }: TransferClaimParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.transferClaim(newOwner).accountsPartial({
+      currentOwner,
+      vault,
+      item,
+      allowlistEntry: await this.allowlistEntry(vault, newOwner),
+    });
+  }
+
+  private listClaimBuilder({
+    seller,
+    vault,
+    itemId,
+    price,
+    paymentMint,
+  }: ListClaimParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods
+      .listClaim(new BN(price), paymentMint ?? null)
+      .accountsPartial({ seller, vault, item });
+  }
+
+  private async buyClaimBuilder({
+    buyer,
+    vault,
+    itemId,
+    price,
+    paymentMint,
+  }: BuyClaimParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const { depositor: seller } = await this.fetchItem(item);
+
+    let paymentAccounts = {
+      paymentMint: null as PublicKey | null,
+      buyerPaymentAccount: null as PublicKey | null,
+      sellerPaymentAccount: null as PublicKey | null,
+      paymentTokenProgram: null as PublicKey | null,
+    };
+    if (paymentMint) {
+      const mintInfo = await this.program.provider.connection.getAccountInfo(
+        paymentMint
+      );
+      if (!mintInfo) {
+        throw new Error(`Payment mint ${paymentMint.toBase58()} not found`);
+      }
+      const tokenProgram = mintInfo.owner;
+      paymentAccounts = {
+        paymentMint,
+        buyerPaymentAccount: getAssociatedTokenAddressSync(
+          paymentMint,
+          buyer,
+          true,
+          tokenProgram
+        ),
+        sellerPaymentAccount: getAssociatedTokenAddressSync(
+          paymentMint,
+          seller,
+          true,
+          tokenProgram
+        ),
+        paymentTokenProgram: tokenProgram,
+      };
+    }
+
+    return this.program.methods
+      .buyClaim(new BN(price), paymentMint ?? null)
+      .accountsPartial({
+        buyer,
+        seller,
+        vault,
+        item,
+        ...paymentAccounts,
+        systemProgram: SystemProgram.programId,
+        allowlistEntry: await this.allowlistEntry(vault, buyer),
+      });
+  }
+
+  private delistClaimBuilder({ seller, vault, itemId }: DelistClaimParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods
+      .delistClaim()
+      .accountsPartial({ seller, vault, item });
+  }
+
+  private pledgeClaimBuilder({
+    holder,
+    vault,
+    itemId,
+    lienholder,
+    deadline,
+  }: PledgeClaimParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods
+      .pledgeClaim(lienholder, new BN(deadline))
+      .accountsPartial({ holder, vault, item });
+  }
+
+  private releasePledgeBuilder({ lienholder, vault, itemId }: PledgeParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods
+      .releasePledge()
+      .accountsPartial({ lienholder, vault, item });
+  }
+
+  private async forecloseBuilder({ lienholder, vault, itemId }: PledgeParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.foreclose().accountsPartial({
+      lienholder,
+      vault,
+      item,
+      allowlistEntry: await this.allowlistEntry(vault, lienholder),
+    });
+  }
+
+  private fractionalizeBuilder({
+    custodian,
+    holder,
+    vault,
+    itemId,
+    shares,
+    buyoutFloor = 0,
+  }: FractionalizeParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const [shareMint] = this.findShareMintAddress(item);
+    return this.program.methods
+      .fractionalize(new BN(shares), new BN(buyoutFloor))
+      .accountsPartial({
+        custodian,
+        holder,
+        vault,
+        item,
+        shareMint,
+        holderShareAccount: getAssociatedTokenAddressSync(
+          shareMint,
+          holder,
+          false,
+          TOKEN_2022_PROGRAM_ID
+        ),
+        tokenProgram: TOKEN_2022_PROGRAM_ID,
+        associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+        systemProgram: SystemProgram.programId,
+      });
+  }
+
+  private async recombineBuilder({ holder, vault, itemId }: RecombineParams) {
+    return this.program.methods.recombine().accountsPartial({
+      ...this.shareAccounts(holder, vault, itemId),
+      allowlistEntry: await this.allowlistEntry(vault, holder),
+    });
+  }
+
+  private startBuyoutBuilder({
+    custodian,
+    vault,
+    itemId,
+    pricePerShare,
+  }: StartBuyoutParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods
+      .startBuyout(new BN(pricePerShare))
+      .accountsPartial({
+        custodian,
+        vault,
+        item,
+        shareMint: this.findShareMintAddress(item)[0],
+        systemProgram: SystemProgram.programId,
+      });
+  }
+
+  private sweepBuyoutBuilder({ custodian, vault, itemId }: SweepBuyoutParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.sweepBuyout().accountsPartial({
+      custodian,
+      vault,
+      item,
+      shareMint: this.findShareMintAddress(item)[0],
+    });
+  }
+
+  private claimBuyoutBuilder({ holder, vault, itemId }: ClaimBuyoutParams) {
+    return this.program.methods
+      .claimBuyout()
+      .accountsPartial(this.shareAccounts(holder, vault, itemId));
+  }
+
+  /** Accounts shared by the instructions that burn a holder's shares. */
+  private shareAccounts(holder: PublicKey, vault: PublicKey, itemId: string) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const [shareMint] = this.findShareMintAddress(item);
+    return {
+      holder,
+      vault,
+      item,
+      shareMint,
+      holderShareAccount: getAssociatedTokenAddressSync(
+        shareMint,
+        holder,
+        false,
+        TOKEN_2022_PROGRAM_ID
+      ),
+      tokenProgram: TOKEN_2022_PROGRAM_ID,
+    };
+  }
+
+  private async setRedeemDelegateBuilder({
+    holder,
+    vault,
+    itemId,
+    delegate,
+  }: SetRedeemDelegateParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.setRedeemDelegate(delegate).accountsPartial({
+      holder,
+      vault,
+      item,
+      ...(await this.claimTokenAccounts(item)),
+    });
+  }
+
+  private async redeemItemBuilder({
+    custodian,
+    redeemer,
+    vault,
+    itemId,
+  }: RedeemItemParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.redeemItem().accountsPartial({
+      custodian,
+      redeemer,
+      vault,
+      item,
+      treasury: this.findTreasuryAddress(vault)[0],
+      systemProgram: SystemProgram.programId,
+      ...(await this.claimTokenAccounts(item)),
+      allowlistEntry: await this.allowlistEntry(vault, redeemer),
+    });
+  }
+
+  private async requestRedemptionBuilder({
+    requester,
+    vault,
+    itemId,
+  }: RequestRedemptionParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.requestRedemption().accountsPartial({
+      requester,
+      vault,
+      item,
+      treasury: this.findTreasuryAddress(vault)[0],
+      systemProgram: SystemProgram.programId,
+      ...(await this.claimTokenAccounts(item)),
+      allowlistEntry: await this.allowlistEntry(vault, requester),
+    });
+  }
+
+  private async fulfilRedemptionBuilder({
+    custodian,
+    vault,
+    itemId,
+  }: FulfilRedemptionParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.fulfilRedemption().accountsPartial({
+      custodian,
+      vault,
+      item,
+      treasury: this.findTreasuryAddress(vault)[0],
+      ...(await this.claimTokenAccounts(item)),
+    });
+  }
+
+  private async cancelRedemptionBuilder({
+    authority,
+    vault,
+    itemId,
+  }: CancelRedemptionParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const { redemptionRequest } = await this.fetchItem(item);
+    return this.program.methods.cancelRedemption().accountsPartial({
+      authority,
+      vault,
+      item,
+      // Refunded the redemption fee; without a request the program fails anyway.
+      requester: redemptionRequest?.requester ?? authority,
+      ...(await this.claimTokenAccounts(item)),
+    });
+  }
+
+  private async updateMetadataBuilder({
+    custodian,
+    vault,
+    itemId,
+    metadataUri,
+    metadataHash,
+  }: UpdateMetadataParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const { claimMint } = await this.fetchItem(item);
+    return this.program.methods
+      .updateMetadata(
+        metadataUri,
+        metadataHash ? Array.from(metadataHash) : null
+      )
+      .accountsPartial({
+        custodian,
+        vault,
+        item,
+        claimMint,
+        tokenProgram: claimMint ? TOKEN_2022_PROGRAM_ID : null,
+        systemProgram: SystemProgram.programId,
+      });
+  }
+
+  private async expireItemBuilder({
+    custodian,
+    vault,
+    itemId,
+  }: ExpireItemParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    return this.program.methods.expireItem().accountsPartial({
+      custodian,
+      vault,
+      item,
+      ...(await this.claimTokenAccounts(item)),
+    });
+  }
+
+  private async closeItemBuilder({
+    authority,
+    vault,
+    itemId,
+  }: CloseItemParams) {
+    const [item] = this.findItemAddress(vault, itemId);
+    const { rentPayer } = await this.fetchItem(item);
+    return this.program.methods
+      .closeItem()
+      .accountsPartial({ authority, vault, item, rentPayer });
+  }
+
+  private async closeVaultBuilder({ custodian, vault }: CloseVaultParams) {
+    const { creator } = await this.fetchVault(vault);
+    return this.program.methods.closeVault().accountsPartial({
+      custodian,
+      vault,
+      treasury: this.findTreasuryAddress(vault)[0],
+      creator,
+    });
+  }
+
+  private async migrateVaultBuilder({
+    payer,
+    legacyVault,
+  }: MigrateVaultParams) {
+    const { custodian, vaultName } = decodeLegacyVault(
+      await this.fetchLegacyData(legacyVault)
+    );
+    const [vault] = this.findVaultAddress(custodian, vaultName);
+    return this.program.methods.migrateVault(vaultName).accountsPartial({
+      payer,
+      legacyVault,
+      custodian,
+      vault,
+      treasury: this.findTreasuryAddress(vault)[0],
+      systemProgram: SystemProgram.programId,
+    });
+  }
+
+  private async migrateItemBuilder({
+    payer,
+    vault,
+    legacyItem,
+  }: MigrateItemParams) {
+    const { itemId, depositor } = decodeLegacyItem(
+      await this.fetchLegacyData(legacyItem)
+    );
+    return this.program.methods.migrateItem(itemId).accountsPartial({
+      payer,
+      vault,
+      legacyItem,
+      depositor,
+      item: this.findItemAddress(vault, itemId)[0],
+      systemProgram: SystemProgram.programId,
+    });
+  }
+
+  private async closeLegacyVaultBuilder({
+    custodian,
+    vault,
+    legacyVault,
+  }: CloseLegacyVaultParams) {
+    const { vaultName } = decodeLegacyVault(
+      await this.fetchLegacyData(legacyVault)
+    );
+    const { creator } = await this.fetchVault(vault);
+    return this.program.methods.closeLegacyVault(vaultName).accountsPartial({
+      custodian,
+      vault,
+      legacyVault,
+      creator,
+    });
+  }
+
+  private async closeLegacyItemBuilder({
+    custodian,
+    vault,
+    legacyItem,
+    vaultName,
+  }: CloseLegacyItemParams) {
+    const { itemId, depositor } = decodeLegacyItem(
+      await this.fetchLegacyData(legacyItem)
+    );
+    return this.program.methods
+      .closeLegacyItem(vaultName, itemId)
+      .accountsPartial({ custodian, depositor, vault, legacyItem });
+  }
+
+  private async fetchLegacyData(address: PublicKey): Promise<Buffer> {
+    const info = await this.program.provider.connection.getAccountInfo(address);
+    if (!info) {
+      throw new Error(`Account ${address.toBase58()} not found`);
+    }
+    return info.data;
+  }
+
+  /**
+   * The wallet's allowlist entry if it has one, for the instructions that
+   * check the allowlist; `null` otherwise, which only passes while the
+   * vault's allowlist mode is off.
+   */
+  private async allowlistEntry(
+    vault: PublicKey,
+    wallet: PublicKey
+  ): Promise<PublicKey | null> {
+    const [entry] = this.findAllowlistAddress(vault, wallet);
+    const info = await this.program.provider.connection.getAccountInfo(entry);
+    return info ? entry : null;
+  }
+
+  /**
+   * Optional claim-token accounts for an item: all `null` unless the item is
+   * tokenized, in which case the token account currently holding the claim
+   * token is looked up on-chain.
+   */
+  private async claimTokenAccounts(item: PublicKey | ItemRecord): Promise<{
+    claimMint: PublicKey | null;
+    holderTokenAccount: PublicKey | null;
+    tokenProgram: PublicKey | null;
+  }> {
+    const record =
+      item instanceof PublicKey ? await this.fetchItem(item) : item;
+    if (!record.claimMint) {
+      return { claimMint: null, holderTokenAccount: null, tokenProgram: null };
+    }
+    const { value } =
+      await this.program.provider.connection.getTokenLargestAccounts(
+        record.claimMint
+      );
+    const holding = value.find((account) => account.amount === "1");
+    return {
+      claimMint: record.claimMint,
+      holderTokenAccount: holding ? holding.address : null,
+      tokenProgram: TOKEN_2022_PROGRAM_ID,
+    };
+  }
+
+  /** Signs and sends a v0 transaction; the first signer pays the fee. */
+  private async sendVersioned(
+    instructions: TransactionInstruction[],
+    signers: Signer[],
+    lookupTables: AddressLookupTableAccount[]
+  ): Promise<string> {
+    const { connection } = this.program.provider;
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash();
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: signers[0].publicKey,
+        recentBlockhash: blockhash,
+        instructions,
+      }).compileToV0Message(lookupTables)
+    );
+    // A depositor may appear in several rows; sign once per key.
+    const unique = new Map<string, Signer>();
+    signers.forEach((signer) =>
+      unique.set(signer.publicKey.toBase58(), signer)
+    );
+    transaction.sign(Array.from(unique.values()));
+
+    try {
+      const signature = await connection.sendTransaction(transaction);
+      const { value } = await connection.confirmTransaction(
+        { signature, blockhash, lastValidBlockHeight },
+        "confirmed"
+      );
+      if (value.err) {
+        throw new Error(
+          `Transaction ${signature} failed: ${JSON.stringify(value.err)}`
+        );
+      }
+      return signature;
+    } catch (err) {
+      throw translateError(err);
+    }
+  }
+
+  private async send(
+    builder:
+      | { signers(signers: Signer[]): { rpc(): Promise<string> } }
+      | Promise<{ signers(signers: Signer[]): { rpc(): Promise<string> } }>,
+    signers: Signer[]
+  ): Promise<string> {
+    try {
+      return await (await builder).signers(signers).rpc();
+    } catch (err) {
+      throw translateError(err);
+    }
+  }
+}
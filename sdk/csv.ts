@@ -0,0 +1,130 @@
+import { PublicKey } from "@solana/web3.js";
+import { MAX_METADATA_LEN } from "./metadata";
+import { MAX_IDENTIFIER_LEN, normalizeIdentifier } from "./pda";
+
+export interface DepositRow {
+  itemId: string;
+  metadataUri: string | null;
+  depositor: PublicKey;
+}
+
+export interface CsvRowError {
+  /** 1-based line number in the file. */
+  line: number;
+  message: string;
+}
+
+const DEPOSIT_COLUMNS = ["item_id", "metadata_uri", "depositor"];
+
+/**
+ * Parses a bulk-import CSV with an `item_id,metadata_uri,depositor` header.
+ * Fields may be double-quoted; an empty `metadata_uri` means none. Rows that
+ * fail validation are returned in `errors` instead of aborting the import,
+ * including rows whose `item_id` normalizes to the same address as an earlier
+ * row's (see `normalizeIdentifier`).
+ */
+export function parseDepositCsv(text: string): {
+  rows: (DepositRow & { line: number })[];
+  errors: CsvRowError[];
+} {
+  const lines = text.split(/\r?\n/);
+  const rows: (DepositRow & { line: number })[] = [];
+  const errors: CsvRowError[] = [];
+  // Line of the accepted row for each normalized item id.
+  const seen = new Map<string, number>();
+
+  const header = splitCsvLine(lines[0] ?? "").map((column) =>
+    column.trim().toLowerCase()
+  );
+  const indexes = DEPOSIT_COLUMNS.map((column) => header.indexOf(column));
+  if (indexes.some((index) => index < 0)) {
+    errors.push({
+      line: 1,
+      message: `Header must contain ${DEPOSIT_COLUMNS.join(", ")}`,
+    });
+    return { rows, errors };
+  }
+  const [itemIdIndex, uriIndex, depositorIndex] = indexes;
+
+  lines.slice(1).forEach((text, offset) => {
+    const line = offset + 2;
+    if (text.trim() === "") {
+      return;
+    }
+    const fields = splitCsvLine(text).map((field) => field.trim());
+    const itemId = fields[itemIdIndex] ?? "";
+    if (itemId === "") {
+      errors.push({ line, message: "Missing item_id" });
+      return;
+    }
+    if (Buffer.byteLength(itemId) > MAX_IDENTIFIER_LEN) {
+      errors.push({
+        line,
+        message: `item_id longer than ${MAX_IDENTIFIER_LEN} bytes: ${itemId}`,
+      });
+      return;
+    }
+    const duplicate = seen.get(normalizeIdentifier(itemId));
+    if (duplicate !== undefined) {
+      errors.push({
+        line,
+        message: `Duplicate item_id ${itemId} (same as line ${duplicate})`,
+      });
+      return;
+    }
+    const metadataUri = fields[uriIndex] ? fields[uriIndex] : null;
+    if (metadataUri && Buffer.byteLength(metadataUri) > MAX_METADATA_LEN) {
+      errors.push({
+        line,
+        message: `metadata_uri longer than ${MAX_METADATA_LEN} bytes for ${itemId}`,
+      });
+      return;
+    }
+    let depositor: PublicKey;
+    try {
+      depositor = new PublicKey(fields[depositorIndex] ?? "");
+    } catch {
+      errors.push({ line, message: `Invalid depositor for ${itemId}` });
+      return;
+    }
+    seen.set(normalizeIdentifier(itemId), line);
+    rows.push({
+      line,
+      itemId,
+      metadataUri,
+      depositor,
+    });
+  });
+
+  return { rows, errors };
+}
+
+/** Splits one CSV line on commas, honouring double quotes and `""` escapes. */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
@@ -0,0 +1,133 @@
+import { AnchorError, ProgramError } from "@coral-xyz/anchor";
+
+/**
+ * Custom error codes of the vault_receipt program, mirroring the Rust
+ * `ErrorCode` enum. Anchor numbers custom errors from 6000 in declaration
+ * order, so new variants must be appended here in the same order.
+ */
+export enum VaultReceiptErrorCode {
+  NameTooLong = 6000,
+  IdTooLong = 6001,
+  AlreadyRedeemed = 6002,
+  UnauthorizedTransfer = 6003,
+  UnauthorizedRedemption = 6004,
+  UnauthorizedRedeemer = 6005,
+  NotClaimHolder = 6006,
+  RedemptionPending = 6007,
+  NoRedemptionRequest = 6008,
+  UnauthorizedCancellation = 6009,
+  NotCustodian = 6010,
+  ClaimTokenized = 6011,
+  MissingClaimToken = 6012,
+  InvalidClaimToken = 6013,
+  TokenMetadataTooLong = 6014,
+  NotPendingCustodian = 6015,
+  OperatorAlreadyAdded = 6016,
+  TooManyOperators = 6017,
+  OperatorNotFound = 6018,
+  VaultPaused = 6019,
+  ItemFrozen = 6020,
+  ItemNotRedeemed = 6021,
+  UnauthorizedClose = 6022,
+  InvalidRentPayer = 6023,
+  VaultNotEmpty = 6024,
+  MetadataTooLong = 6025,
+  InvalidPrice = 6026,
+  NotListed = 6027,
+  ItemListed = 6028,
+  ListingChanged = 6029,
+  MissingPaymentAccount = 6030,
+  InvalidPaymentAccount = 6031,
+  InsufficientFees = 6032,
+  InvalidRequester = 6033,
+  InvalidShareCount = 6034,
+  ItemFractionalized = 6035,
+  NotFractionalized = 6036,
+  InvalidShareAccount = 6037,
+  IncompleteShares = 6038,
+  NoBuyout = 6039,
+  BuyoutUnclaimed = 6040,
+  NotComplianceAuthority = 6041,
+  InvalidExpiry = 6042,
+  NotAllowlisted = 6043,
+  AllowlistExpired = 6044,
+  AllowlistEnforced = 6045,
+  InvalidTimeLocks = 6046,
+  TransferLocked = 6047,
+  RedemptionLocked = 6048,
+  ItemExpired = 6049,
+  NotExpired = 6050,
+  NotAuditor = 6051,
+  NoAttestation = 6052,
+  NotInAttestation = 6053,
+  NoteTooLong = 6054,
+  ItemDisputed = 6055,
+  ItemLost = 6056,
+  NotContested = 6057,
+  NotLost = 6058,
+  ItemPledged = 6059,
+  NotPledged = 6060,
+  NotLienholder = 6061,
+  InvalidPledgeDeadline = 6062,
+  PledgeNotDue = 6063,
+  AlreadyMigrated = 6064,
+  BuyoutBelowFloor = 6065,
+  BuyoutClaimOpen = 6066,
+}
+
+/** A program error raised by one of the vault_receipt instructions. */
+export class VaultReceiptError extends Error {
+  readonly code: VaultReceiptErrorCode;
+  readonly logs: string[];
+
+  constructor(
+    code: VaultReceiptErrorCode,
+    message: string,
+    logs: string[] = []
+  ) {
+    super(message);
+    this.name = `VaultReceiptError(${VaultReceiptErrorCode[code]})`;
+    this.code = code;
+    this.logs = logs;
+  }
+
+  /** The Rust name of the error variant, e.g. `"AlreadyRedeemed"`. */
+  get codeName(): string {
+    return VaultReceiptErrorCode[this.code];
+  }
+}
+
+/**
+ * Maps an error thrown while sending a transaction to a `VaultReceiptError`
+ * when it carries one of the program's custom error codes. Any other error
+ * (signature failures, Anchor constraint errors, RPC errors) is returned as-is.
+ */
+export function translateError(err: unknown): unknown {
+  let code: number | undefined;
+  let message: string | undefined;
+  let logs: string[] = [];
+
+  if (err instanceof AnchorError) {
+    code = err.error.errorCode.number;
+    message = err.error.errorMessage;
+    logs = err.logs;
+  } else if (err instanceof ProgramError) {
+    code = err.code;
+    message = err.msg;
+    logs = err.logs ?? [];
+  } else if (err && Array.isArray((err as { logs?: unknown }).logs)) {
+    const parsed = AnchorError.parse((err as { logs: string[] }).logs);
+    if (parsed) {
+      return translateError(parsed);
+    }
+  }
+
+  if (code !== undefined && VaultReceiptErrorCode[code] !== undefined) {
+    return new VaultReceiptError(
+      code,
+      message ?? VaultReceiptErrorCode[code],
+      logs
+    );
+  }
+  return err;
+}
@@ -0,0 +1,10 @@
+export * from "./batch";
+export * from "./client";
+export * from "./csv";
+export * from "./errors";
+export * from "./indexer";
+export * from "./legacy";
+export * from "./merkle";
+export * from "./metadata";
+export * from "./offline";
+export * from "./pda";
@@ -0,0 +1,561 @@
+import { BN, EventParser, IdlEvents, Program } from "@coral-xyz/anchor";
+import { ConfirmedSignatureInfo, PublicKey } from "@solana/web3.js";
+import * as fs from "fs";
+import { VaultReceipt } from "../target/types/vault_receipt";
+import { ItemStatusName, itemStatus } from "./client";
+
+type Events = IdlEvents<VaultReceipt>;
+
+interface ProvenanceBase {
+  signature: string;
+  slot: number;
+  /** Cluster time of the event in unix seconds. */
+  timestamp: number;
+  /** The vault's event sequence number; consecutive across all of the vault's events. */
+  seq: number;
+}
+
+export interface DepositEntry extends ProvenanceBase {
+  kind: "deposit";
+  depositor: string;
+  custodian: string;
+}
+
+export interface TransferEntry extends ProvenanceBase {
+  kind: "transfer";
+  from: string;
+  to: string;
+}
+
+export interface SaleEntry extends ProvenanceBase {
+  kind: "sale";
+  from: string;
+  to: string;
+  /** Decimal string in lamports or base units of `paymentMint`. */
+  price: string;
+  /** `null` for SOL. */
+  paymentMint: string | null;
+}
+
+export interface PledgeEntry extends ProvenanceBase {
+  kind: "pledge";
+  holder: string;
+  lienholder: string;
+  /** Unix seconds from which the lienholder may foreclose. */
+  deadline: number;
+}
+
+export interface PledgeReleaseEntry extends ProvenanceBase {
+  kind: "release";
+  holder: string;
+  lienholder: string;
+}
+
+export interface ForeclosureEntry extends ProvenanceBase {
+  kind: "foreclosure";
+  from: string;
+  to: string;
+}
+
+export interface RedemptionEntry extends ProvenanceBase {
+  kind: "redemption";
+  redeemer: string;
+  custodian: string;
+}
+
+export interface ExpiryEntry extends ProvenanceBase {
+  kind: "expiry";
+  holder: string;
+  custodian: string;
+}
+
+export interface FractionalizeEntry extends ProvenanceBase {
+  kind: "fractionalize";
+  holder: string;
+  shareMint: string;
+  /** Decimal string. */
+  shares: string;
+}
+
+export interface RecombineEntry extends ProvenanceBase {
+  kind: "recombine";
+  holder: string;
+}
+
+export interface BuyoutEntry extends ProvenanceBase {
+  kind: "buyout";
+  custodian: string;
+  /** Decimal string in lamports. */
+  pricePerShare: string;
+}
+
+export interface DisputeEntry extends ProvenanceBase {
+  kind: "dispute";
+  holder: string;
+  reason: string;
+}
+
+export interface LossEntry extends ProvenanceBase {
+  kind: "loss";
+  custodian: string;
+  note: string;
+}
+
+export interface ResolutionEntry extends ProvenanceBase {
+  kind: "resolution";
+  custodian: string;
+  /** Status the item was returned to `active` from. */
+  previousStatus: ItemStatusName;
+  note: string;
+}
+
+export interface CompensationEntry extends ProvenanceBase {
+  kind: "compensation";
+  holder: string;
+  custodian: string;
+  note: string;
+}
+
+export interface CloseEntry extends ProvenanceBase {
+  kind: "close";
+  /** Wallet the record's rent was returned to. */
+  rentPayer: string;
+}
+
+export type ProvenanceEntry =
+  | DepositEntry
+  | TransferEntry
+  | SaleEntry
+  | PledgeEntry
+  | PledgeReleaseEntry
+  | ForeclosureEntry
+  | RedemptionEntry
+  | ExpiryEntry
+  | FractionalizeEntry
+  | RecombineEntry
+  | BuyoutEntry
+  | DisputeEntry
+  | LossEntry
+  | ResolutionEntry
+  | CompensationEntry
+  | CloseEntry;
+
+/** Chain of custody of one item, oldest entry first. Keys are base58 strings. */
+export interface ItemHistory {
+  item: string;
+  vault: string;
+  itemId: string;
+  /** `null` while the claim is split into shares. */
+  holder: string | null;
+  status: ItemStatusName;
+  entries: ProvenanceEntry[];
+}
+
+/** Last transaction applied to the store; `sync` resumes after it. */
+export interface IndexerCheckpoint {
+  signature: string;
+  slot: number;
+}
+
+export interface IndexerState {
+  checkpoint: IndexerCheckpoint | null;
+  items: { [item: string]: ItemHistory };
+  /**
+   * Histories of closed records by address, oldest first. An item id reissued
+   * after `close_item` gets the same address, so its new history starts over
+   * in `items`.
+   */
+  closed: { [item: string]: ItemHistory[] };
+}
+
+/**
+ * Persistence for the indexer. `save` receives the full state together with
+ * its checkpoint every 100 applied transactions and at the end of a sync, so
+ * an implementation only has to store it atomically for `sync` to be
+ * resumable.
+ */
+export interface IndexerStore {
+  load(): Promise<IndexerState>;
+  save(state: IndexerState): Promise<void>;
+}
+
+const emptyState = (): IndexerState => ({
+  checkpoint: null,
+  items: {},
+  closed: {},
+});
+
+/** Keeps the state in memory; useful for tests and one-off reports. */
+export class MemoryIndexerStore implements IndexerStore {
+  private state = emptyState();
+
+  async load(): Promise<IndexerState> {
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    this.state = JSON.parse(JSON.stringify(state));
+  }
+}
+
+/** Stores the state in a JSON file, replaced atomically on every save. */
+export class JsonFileIndexerStore implements IndexerStore {
+  constructor(readonly path: string) {}
+
+  async load(): Promise<IndexerState> {
+    if (!fs.existsSync(this.path)) {
+      return emptyState();
+    }
+    // Files saved before closed histories were archived have no `closed`.
+    return {
+      ...emptyState(),
+      ...JSON.parse(fs.readFileSync(this.path, "utf8")),
+    };
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    const tmp = `${this.path}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+    fs.renameSync(tmp, this.path);
+  }
+}
+
+const SIGNATURE_PAGE_SIZE = 1000;
+// Saving rewrites the whole state, so it happens once per this many
+// transactions rather than after each one.
+const CHECKPOINT_INTERVAL = 100;
+
+/**
+ * Rebuilds per-item provenance from the program's `ItemDeposited`,
+ * `ClaimTransferred`, `ClaimSold`, `ClaimPledged`, `PledgeReleased`,
+ * `ClaimForeclosed`, `ItemRedeemed`, `ItemExpired`, `ItemFractionalized`,
+ * `ItemRecombined`, `BuyoutStarted`, `DisputeRaised`, `ItemDeclaredLost`,
+ * `DisputeResolved`, `ItemCompensated` and `ItemClosed` events by replaying
+ * its transaction logs.
+ *
+ * Wallet transfers of a claim token or of shares emit no program event, so
+ * for tokenized items the history records the holder as of the last program
+ * instruction.
+ */
+export class VaultReceiptIndexer {
+  private readonly parser: EventParser;
+
+  constructor(
+    readonly program: Program<VaultReceipt>,
+    readonly store: IndexerStore = new MemoryIndexerStore()
+  ) {
+    this.parser = new EventParser(program.programId, program.coder);
+  }
+
+  /**
+   * Applies every confirmed program transaction since the last checkpoint,
+   * oldest first, and returns how many transactions were processed. The state
+   * is saved with its checkpoint every `CHECKPOINT_INTERVAL` transactions and
+   * at the end, so an interrupted sync resumes from the last save.
+   */
+  async sync(): Promise<number> {
+    const state = await this.store.load();
+    const signatures = await this.signaturesSince(state.checkpoint);
+
+    for (const [index, info] of signatures.entries()) {
+      if (!info.err) {
+        await this.apply(state, info);
+      }
+      state.checkpoint = { signature: info.signature, slot: info.slot };
+      const last = index === signatures.length - 1;
+      if (last || (index + 1) % CHECKPOINT_INTERVAL === 0) {
+        await this.store.save(state);
+      }
+    }
+    return signatures.length;
+  }
+
+  async getHistory(item: PublicKey): Promise<ItemHistory | null> {
+    const { items } = await this.store.load();
+    return items[item.toBase58()] ?? null;
+  }
+
+  async listHistories(): Promise<ItemHistory[]> {
+    const { items } = await this.store.load();
+    return Object.keys(items).map((key) => items[key]);
+  }
+
+  /** Histories of the records closed at this address, oldest first. */
+  async getClosedHistories(item: PublicKey): Promise<ItemHistory[]> {
+    const { closed } = await this.store.load();
+    return closed[item.toBase58()] ?? [];
+  }
+
+  private async signaturesSince(
+    checkpoint: IndexerCheckpoint | null
+  ): Promise<ConfirmedSignatureInfo[]> {
+    const { connection } = this.program.provider;
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+
+    // Pages come newest first; walk back until the checkpoint is reached.
+    for (;;) {
+      const page = await connection.getSignaturesForAddress(
+        this.program.programId,
+        {
+          before,
+          until: checkpoint?.signature,
+          limit: SIGNATURE_PAGE_SIZE,
+        },
+        "confirmed"
+      );
+      signatures.push(...page);
+      if (page.length < SIGNATURE_PAGE_SIZE) {
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+    return signatures.reverse();
+  }
+
+  private async apply(
+    state: IndexerState,
+    info: ConfirmedSignatureInfo
+  ): Promise<void> {
+    const tx = await this.program.provider.connection.getTransaction(
+      info.signature,
+      { commitment: "confirmed", maxSupportedTransactionVersion: 0 }
+    );
+    const logs = tx?.meta?.logMessages;
+    if (!logs) {
+      return;
+    }
+
+    for (const event of this.parser.parseLogs(logs)) {
+      switch (event.name) {
+        case "itemDeposited": {
+          const data = event.data as Events["itemDeposited"];
+          const history = this.historyOf(state, data);
+          history.holder = data.depositor.toBase58();
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "deposit",
+            depositor: data.depositor.toBase58(),
+            custodian: data.custodian.toBase58(),
+          });
+          break;
+        }
+        case "claimTransferred": {
+          const data = event.data as Events["claimTransferred"];
+          const history = this.historyOf(state, data);
+          history.holder = data.newOwner.toBase58();
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "transfer",
+            from: data.oldOwner.toBase58(),
+            to: data.newOwner.toBase58(),
+          });
+          break;
+        }
+        case "claimSold": {
+          const data = event.data as Events["claimSold"];
+          const history = this.historyOf(state, data);
+          history.holder = data.buyer.toBase58();
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "sale",
+            from: data.seller.toBase58(),
+            to: data.buyer.toBase58(),
+            price: data.price.toString(),
+            paymentMint: data.paymentMint ? data.paymentMint.toBase58() : null,
+          });
+          break;
+        }
+        case "claimPledged": {
+          const data = event.data as Events["claimPledged"];
+          this.historyOf(state, data).entries.push({
+            ...this.provenance(info, data),
+            kind: "pledge",
+            holder: data.holder.toBase58(),
+            lienholder: data.lienholder.toBase58(),
+            deadline: data.deadline.toNumber(),
+          });
+          break;
+        }
+        case "pledgeReleased": {
+          const data = event.data as Events["pledgeReleased"];
+          this.historyOf(state, data).entries.push({
+            ...this.provenance(info, data),
+            kind: "release",
+            holder: data.holder.toBase58(),
+            lienholder: data.lienholder.toBase58(),
+          });
+          break;
+        }
+        case "claimForeclosed": {
+          const data = event.data as Events["claimForeclosed"];
+          const history = this.historyOf(state, data);
+          history.holder = data.lienholder.toBase58();
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "foreclosure",
+            from: data.previousHolder.toBase58(),
+            to: data.lienholder.toBase58(),
+          });
+          break;
+        }
+        case "itemRedeemed": {
+          const data = event.data as Events["itemRedeemed"];
+          const history = this.historyOf(state, data);
+          history.status = "redeemed";
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "redemption",
+            redeemer: data.redeemer.toBase58(),
+            custodian: data.custodian.toBase58(),
+          });
+          break;
+        }
+        case "itemExpired": {
+          const data = event.data as Events["itemExpired"];
+          const history = this.historyOf(state, data);
+          history.status = "expired";
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "expiry",
+            holder: data.holder.toBase58(),
+            custodian: data.custodian.toBase58(),
+          });
+          break;
+        }
+        case "itemFractionalized": {
+          const data = event.data as Events["itemFractionalized"];
+          const history = this.historyOf(state, data);
+          history.holder = null;
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "fractionalize",
+            holder: data.holder.toBase58(),
+            shareMint: data.shareMint.toBase58(),
+            shares: data.shares.toString(),
+          });
+          break;
+        }
+        case "itemRecombined": {
+          const data = event.data as Events["itemRecombined"];
+          const history = this.historyOf(state, data);
+          history.holder = data.holder.toBase58();
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "recombine",
+            holder: data.holder.toBase58(),
+          });
+          break;
+        }
+        case "buyoutStarted": {
+          const data = event.data as Events["buyoutStarted"];
+          const history = this.historyOf(state, data);
+          history.holder = data.custodian.toBase58();
+          history.status = "redeemed";
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "buyout",
+            custodian: data.custodian.toBase58(),
+            pricePerShare: data.pricePerShare.toString(),
+          });
+          break;
+        }
+        case "disputeRaised": {
+          const data = event.data as Events["disputeRaised"];
+          const history = this.historyOf(state, data);
+          history.status = "disputed";
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "dispute",
+            holder: data.holder.toBase58(),
+            reason: data.reason,
+          });
+          break;
+        }
+        case "itemDeclaredLost": {
+          const data = event.data as Events["itemDeclaredLost"];
+          const history = this.historyOf(state, data);
+          history.status = "lost";
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "loss",
+            custodian: data.custodian.toBase58(),
+            note: data.note,
+          });
+          break;
+        }
+        case "disputeResolved": {
+          const data = event.data as Events["disputeResolved"];
+          const history = this.historyOf(state, data);
+          history.status = "active";
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "resolution",
+            custodian: data.custodian.toBase58(),
+            previousStatus: itemStatus({ status: data.previousStatus }),
+            note: data.note,
+          });
+          break;
+        }
+        case "itemCompensated": {
+          const data = event.data as Events["itemCompensated"];
+          const history = this.historyOf(state, data);
+          history.status = "compensated";
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "compensation",
+            holder: data.holder.toBase58(),
+            custodian: data.custodian.toBase58(),
+            note: data.note,
+          });
+          break;
+        }
+        case "itemClosed": {
+          // A later deposit of the same id reuses the address, so the closed
+          // record's history is archived instead of being appended to.
+          const data = event.data as Events["itemClosed"];
+          const history = this.historyOf(state, data);
+          history.entries.push({
+            ...this.provenance(info, data),
+            kind: "close",
+            rentPayer: data.rentPayer.toBase58(),
+          });
+          const key = history.item;
+          state.closed[key] = [...(state.closed[key] ?? []), history];
+          delete state.items[key];
+          break;
+        }
+      }
+    }
+  }
+
+  private provenance(
+    info: ConfirmedSignatureInfo,
+    event: { timestamp: BN; seq: BN }
+  ): ProvenanceBase {
+    return {
+      signature: info.signature,
+      slot: info.slot,
+      timestamp: event.timestamp.toNumber(),
+      seq: event.seq.toNumber(),
+    };
+  }
+
+  private historyOf(
+    state: IndexerState,
+    event: { vault: PublicKey; itemAccount: PublicKey; itemId: string }
+  ): ItemHistory {
+    const key = event.itemAccount.toBase58();
+    if (!state.items[key]) {
+      state.items[key] = {
+        item: key,
+        vault: event.vault.toBase58(),
+        itemId: event.itemId,
+        holder: null,
+        status: "active",
+        entries: [],
+      };
+    }
+    return state.items[key];
+  }
+}
@@ -0,0 +1,125 @@
+import { BN } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import { ITEM_SEED, VAULT_SEED } from "./pda";
+
+/**
+ * Account sizes of the layouts first deployed, before versioning. Such
+ * accounts have no version byte and live at addresses derived from the raw
+ * identifier bytes; `migrate_vault` and `migrate_item` move them.
+ */
+export const LEGACY_ACCOUNT_SIZES = {
+  vaultAccount: 109,
+  itemRecord: 364,
+} as const;
+
+/** A `VaultAccount` in the layout from before versioning. */
+export interface LegacyVaultAccount {
+  custodian: PublicKey;
+  vaultName: string;
+  bump: number;
+}
+
+/** An `ItemRecord` in the layout from before versioning. */
+export interface LegacyItemRecord {
+  itemId: string;
+  custodian: PublicKey;
+  depositor: PublicKey;
+  depositTs: BN;
+  redeemed: boolean;
+  metadata: string | null;
+  redeemTs: BN | null;
+  bump: number;
+}
+
+/**
+ * Reads the Borsh fields of an old account in order, starting after the
+ * 8-byte discriminator.
+ */
+function borshReader(data: Buffer) {
+  let offset = 8;
+  const reader = {
+    pubkey(): PublicKey {
+      offset += 32;
+      return new PublicKey(data.subarray(offset - 32, offset));
+    },
+    u8(): number {
+      return data.readUInt8(offset++);
+    },
+    i64(): BN {
+      offset += 8;
+      return new BN(data.subarray(offset - 8, offset), "le").fromTwos(64);
+    },
+    string(): string {
+      const length = data.readUInt32LE(offset);
+      offset += 4 + length;
+      return data.subarray(offset - length, offset).toString("utf8");
+    },
+    option<T>(read: () => T): T | null {
+      return reader.u8() ? read() : null;
+    },
+  };
+  return reader;
+}
+
+/** Decodes the data of a vault from before versioning. */
+export function decodeLegacyVault(data: Buffer): LegacyVaultAccount {
+  const read = borshReader(data);
+  return {
+    custodian: read.pubkey(),
+    vaultName: read.string(),
+    bump: read.u8(),
+  };
+}
+
+/** Decodes the data of an item record from before versioning. */
+export function decodeLegacyItem(data: Buffer): LegacyItemRecord {
+  const read = borshReader(data);
+  return {
+    itemId: read.string(),
+    custodian: read.pubkey(),
+    depositor: read.pubkey(),
+    depositTs: read.i64(),
+    redeemed: read.u8() === 1,
+    metadata: read.option(read.string),
+    redeemTs: read.option(read.i64),
+    bump: read.u8(),
+  };
+}
+
+/**
+ * The address a vault had before versioning, derived from the raw name
+ * bytes. `null` for names over 32 bytes, which could not be seeds then.
+ */
+export function findLegacyVaultAddress(
+  programId: PublicKey,
+  custodian: PublicKey,
+  vaultName: string
+): PublicKey | null {
+  const name = Buffer.from(vaultName);
+  if (name.length > 32) {
+    return null;
+  }
+  return PublicKey.findProgramAddressSync(
+    [VAULT_SEED, custodian.toBuffer(), name],
+    programId
+  )[0];
+}
+
+/**
+ * The address an item had before versioning, under its vault's old address
+ * and derived from the raw id bytes; `null` for ids over 32 bytes.
+ */
+export function findLegacyItemAddress(
+  programId: PublicKey,
+  legacyVault: PublicKey,
+  itemId: string
+): PublicKey | null {
+  const id = Buffer.from(itemId);
+  if (id.length > 32) {
+    return null;
+  }
+  return PublicKey.findProgramAddressSync(
+    [ITEM_SEED, legacyVault.toBuffer(), id],
+    programId
+  )[0];
+}
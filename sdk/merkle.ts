@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+
+/**
+ * Merkle tree over item ids, matching the program's `Attestation`: each leaf
+ * is `sha256(0x00 || itemId)` and each parent `sha256(0x01 || lower ||
+ * higher)` of its two children in byte order, so a proof is just the list of
+ * sibling hashes. An unpaired node moves up a level unchanged; the root of an
+ * empty tree is 32 zero bytes.
+ */
+export class AttestationTree {
+  /** Every level from the leaves (`levels[0]`) up to the root. */
+  private readonly levels: Buffer[][];
+
+  constructor(readonly itemIds: string[]) {
+    if (new Set(itemIds).size !== itemIds.length) {
+      throw new Error("Item ids in an attestation must be unique");
+    }
+    this.levels = [itemIds.map(attestationLeaf)];
+    for (
+      let level = this.levels[0];
+      level.length > 1;
+      level = this.levels[this.levels.length - 1]
+    ) {
+      const parents: Buffer[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        parents.push(
+          i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]
+        );
+      }
+      this.levels.push(parents);
+    }
+  }
+
+  /** The root to pass to `submitAttestation`. */
+  get root(): number[] {
+    const [top] = this.levels[this.levels.length - 1];
+    return Array.from(top ?? Buffer.alloc(32));
+  }
+
+  /** Sibling hashes from `itemId`'s leaf to the root, for `verifyItem`. */
+  proof(itemId: string): number[][] {
+    let index = this.itemIds.indexOf(itemId);
+    if (index < 0) {
+      throw new Error(`${itemId} is not in the attestation`);
+    }
+    const proof: number[][] = [];
+    for (const level of this.levels.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) {
+        proof.push(Array.from(level[sibling]));
+      }
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  }
+}
+
+export function attestationLeaf(itemId: string): Buffer {
+  return createHash("sha256")
+    .update(Buffer.from([0]))
+    .update(itemId)
+    .digest();
+}
+
+/** Checks a proof off-chain the same way `verify_item` does on-chain. */
+export function verifyAttestationProof(
+  root: number[] | Uint8Array,
+  itemId: string,
+  proof: (number[] | Uint8Array)[]
+): boolean {
+  const computed = proof.reduce<Buffer>(
+    (node, sibling) => hashPair(node, Buffer.from(sibling)),
+    attestationLeaf(itemId)
+  );
+  return computed.equals(Buffer.from(root));
+}
+
+function hashPair(a: Buffer, b: Buffer): Buffer {
+  const [lower, higher] = Buffer.compare(a, b) <= 0 ? [a, b] : [b, a];
+  return createHash("sha256")
+    .update(Buffer.from([1]))
+    .update(lower)
+    .update(higher)
+    .digest();
+}
@@ -0,0 +1,35 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+
+/** Longest metadata URI an `ItemRecord` can hold, in bytes. */
+export const MAX_METADATA_LEN = 200;
+
+/** SHA-256 of an off-chain certificate, in the form stored as `ItemRecord.metadataHash`. */
+export function hashMetadata(contents: Uint8Array | string): number[] {
+  return Array.from(createHash("sha256").update(contents).digest());
+}
+
+export interface MetadataVerification {
+  /** Hash recorded on-chain, or `null` if the item was issued without one. */
+  expected: number[] | null;
+  /** Hash of the local file. */
+  actual: number[];
+  matches: boolean;
+}
+
+/** Hashes a local certificate file and compares it with the hash recorded for the item. */
+export function verifyMetadataFile(
+  record: { metadataHash: number[] | null },
+  path: string
+): MetadataVerification {
+  const actual = hashMetadata(fs.readFileSync(path));
+  const expected = record.metadataHash;
+  return {
+    expected,
+    actual,
+    matches:
+      expected !== null &&
+      expected.length === actual.length &&
+      expected.every((byte, i) => byte === actual[i]),
+  };
+}
@@ -0,0 +1,268 @@
+import { BorshInstructionCoder, Program } from "@coral-xyz/anchor";
+import {
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  Signer,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { VaultReceipt } from "../target/types/vault_receipt";
+import { translateError } from "./errors";
+
+export interface PrepareOfflineParams {
+  instructions: TransactionInstruction[];
+  /** Pays the fee; usually the custodian. */
+  feePayer: PublicKey;
+  /** A nonce account created with `createNonceAccount`. */
+  nonceAccount: PublicKey;
+}
+
+export interface OfflineSummary {
+  feePayer: PublicKey;
+  nonceAccount: PublicKey | null;
+  instructions: {
+    program: PublicKey;
+    /** Instruction name, or `null` for programs the summary cannot decode. */
+    name: string | null;
+    args: { name: string; value: string }[];
+    accounts: {
+      name: string | null;
+      pubkey: PublicKey;
+      isSigner: boolean;
+      isWritable: boolean;
+    }[];
+  }[];
+  signers: { publicKey: PublicKey; signed: boolean }[];
+}
+
+/**
+ * Creates a nonce account controlled by `authority`, funded by `payer`. It
+ * can back any number of offline transactions, one at a time: submitting a
+ * transaction advances the nonce and invalidates anything else built on it.
+ */
+export async function createNonceAccount(
+  connection: Connection,
+  payer: Signer,
+  authority: PublicKey
+): Promise<PublicKey> {
+  const nonceAccount = Keypair.generate();
+  const transaction = new Transaction().add(
+    SystemProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      newAccountPubkey: nonceAccount.publicKey,
+      lamports: await connection.getMinimumBalanceForRentExemption(
+        NONCE_ACCOUNT_LENGTH
+      ),
+      space: NONCE_ACCOUNT_LENGTH,
+      programId: SystemProgram.programId,
+    }),
+    SystemProgram.nonceInitialize({
+      noncePubkey: nonceAccount.publicKey,
+      authorizedPubkey: authority,
+    })
+  );
+  const signature = await connection.sendTransaction(transaction, [
+    payer,
+    nonceAccount,
+  ]);
+  await connection.confirmTransaction(signature, "confirmed");
+  return nonceAccount.publicKey;
+}
+
+/**
+ * Starts an offline transaction for instructions whose signers are on
+ * different devices, such as `deposit_and_issue` (custodian + depositor) or
+ * `redeem_item` (custodian + redeemer).
+ *
+ * The transaction is built on the nonce's current value instead of a recent
+ * blockhash, so it does not expire while it travels, and is returned as a
+ * base64 string. Each party reviews `summarizeOffline`, adds its signature
+ * with `signOffline` and passes the new string on; whoever adds the last
+ * signature calls `submitOffline`. The nonce authority must be one of the
+ * signers, normally as fee payer.
+ */
+export async function prepareOffline(
+  connection: Connection,
+  { instructions, feePayer, nonceAccount }: PrepareOfflineParams
+): Promise<string> {
+  const info = await connection.getAccountInfo(nonceAccount);
+  if (!info) {
+    throw new Error(`Nonce account ${nonceAccount.toBase58()} not found`);
+  }
+  const nonce = NonceAccount.fromAccountData(info.data);
+  const transaction = new Transaction({ feePayer }).add(
+    // A durable-nonce transaction must advance the nonce first.
+    SystemProgram.nonceAdvance({
+      noncePubkey: nonceAccount,
+      authorizedPubkey: nonce.authorizedPubkey,
+    }),
+    ...instructions
+  );
+  transaction.recentBlockhash = nonce.nonce;
+  return encodeOffline(transaction);
+}
+
+/** Base64 of the wire format, signatures collected so far included. */
+export function encodeOffline(transaction: Transaction): string {
+  return transaction
+    .serialize({ requireAllSignatures: false, verifySignatures: false })
+    .toString("base64");
+}
+
+export function decodeOffline(encoded: string): Transaction {
+  return Transaction.from(Buffer.from(encoded, "base64"));
+}
+
+/**
+ * Decodes what an encoded transaction will do, for review before signing.
+ * Instructions of `program` are decoded with its IDL; other programs only
+ * show their accounts.
+ */
+export function summarizeOffline(
+  program: Program<VaultReceipt>,
+  encoded: string
+): OfflineSummary {
+  const transaction = decodeOffline(encoded);
+  const coder = new BorshInstructionCoder(program.idl);
+  const [first] = transaction.instructions;
+  const advancesNonce =
+    first !== undefined &&
+    first.programId.equals(SystemProgram.programId) &&
+    SystemInstruction.decodeInstructionType(first) === "AdvanceNonceAccount";
+
+  return {
+    feePayer: transaction.feePayer,
+    nonceAccount: advancesNonce
+      ? SystemInstruction.decodeNonceAdvance(first).noncePubkey
+      : null,
+    instructions: transaction.instructions.map((instruction) => {
+      const decoded = instruction.programId.equals(program.programId)
+        ? coder.decode(instruction.data)
+        : null;
+      const display = decoded && coder.format(decoded, instruction.keys);
+      return {
+        program: instruction.programId,
+        name: decoded ? decoded.name : null,
+        args: display
+          ? display.args.map(({ name, data }) => ({ name, value: data }))
+          : [],
+        accounts: display
+          ? display.accounts.map(({ name, ...meta }) => ({
+              name: name ?? null,
+              ...meta,
+            }))
+          : instruction.keys.map((meta) => ({ name: null, ...meta })),
+      };
+    }),
+    signers: transaction.signatures.map(({ publicKey, signature }) => ({
+      publicKey,
+      signed: signature !== null,
+    })),
+  };
+}
+
+/** Plain-text rendering of a summary, one line per argument or account. */
+export function formatOfflineSummary(summary: OfflineSummary): string {
+  const lines = [`Fee payer: ${summary.feePayer.toBase58()}`];
+  if (summary.nonceAccount) {
+    lines.push(`Durable nonce: ${summary.nonceAccount.toBase58()}`);
+  }
+  summary.instructions.forEach((instruction, i) => {
+    lines.push(
+      `${i + 1}. ${
+        instruction.name ?? "instruction"
+      } (program ${instruction.program.toBase58()})`
+    );
+    instruction.args.forEach(({ name, value }) =>
+      lines.push(`     ${name}: ${value}`)
+    );
+    instruction.accounts.forEach((account) => {
+      const flags = [
+        account.isSigner ? "signer" : null,
+        account.isWritable ? "writable" : null,
+      ].filter((flag) => flag !== null);
+      lines.push(
+        `     ${account.name ?? "account"}: ${account.pubkey.toBase58()}${
+          flags.length > 0 ? ` (${flags.join(", ")})` : ""
+        }`
+      );
+    });
+  });
+  lines.push("Signatures:");
+  summary.signers.forEach(({ publicKey, signed }) =>
+    lines.push(`  ${publicKey.toBase58()} ${signed ? "signed" : "missing"}`)
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Adds `signer`'s signature and returns the re-encoded transaction. Fails if
+ * `signer` is not asked to sign or a signature already present does not
+ * match the transaction, i.e. it was altered after someone signed it.
+ */
+export function signOffline(encoded: string, signer: Signer): string {
+  const transaction = decodeOffline(encoded);
+  if (!transaction.verifySignatures(false)) {
+    throw new Error("Transaction was modified after it was signed");
+  }
+  if (
+    !transaction.signatures.some(({ publicKey }) =>
+      publicKey.equals(signer.publicKey)
+    )
+  ) {
+    throw new Error(
+      `${signer.publicKey.toBase58()} is not a signer of this transaction`
+    );
+  }
+  transaction.partialSign(signer);
+  return encodeOffline(transaction);
+}
+
+/** Signers whose signature is still missing. */
+export function missingOfflineSigners(encoded: string): PublicKey[] {
+  return decodeOffline(encoded)
+    .signatures.filter(({ signature }) => signature === null)
+    .map(({ publicKey }) => publicKey);
+}
+
+/** Sends a fully signed transaction and waits for confirmation. */
+export async function submitOffline(
+  connection: Connection,
+  encoded: string
+): Promise<string> {
+  const missing = missingOfflineSigners(encoded);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing signatures from ${missing
+        .map((publicKey) => publicKey.toBase58())
+        .join(", ")}`
+    );
+  }
+  const transaction = decodeOffline(encoded);
+  if (!transaction.verifySignatures()) {
+    throw new Error("Transaction was modified after it was signed");
+  }
+
+  try {
+    const signature = await connection.sendRawTransaction(
+      transaction.serialize()
+    );
+    const { value } = await connection.confirmTransaction(
+      signature,
+      "confirmed"
+    );
+    if (value.err) {
+      throw new Error(
+        `Transaction ${signature} failed: ${JSON.stringify(value.err)}`
+      );
+    }
+    return signature;
+  } catch (err) {
+    throw translateError(err);
+  }
+}
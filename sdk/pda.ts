@@ -0,0 +1,115 @@
+import { PublicKey } from "@solana/web3.js";
+import { createHash } from "crypto";
+
+export const VAULT_SEED = Buffer.from("vault");
+export const ITEM_SEED = Buffer.from("item");
+export const CLAIM_MINT_SEED = Buffer.from("claim_mint");
+export const TREASURY_SEED = Buffer.from("treasury");
+export const SHARE_MINT_SEED = Buffer.from("share_mint");
+export const ALLOWLIST_SEED = Buffer.from("allowlist");
+
+/** Longest vault name or item id the program accepts, in bytes. */
+export const MAX_IDENTIFIER_LEN = 64;
+
+/**
+ * Whitespace trimmed from identifiers: JavaScript's `\s`, which includes
+ * U+FEFF, plus U+0085, which Rust's `char::is_whitespace` also counts.
+ */
+const IDENTIFIER_PADDING = /^[\s\u0085]+|[\s\u0085]+$/g;
+
+/**
+ * Canonical form of a vault name or item id, as the program's
+ * `normalize_identifier` computes it: Unicode NFC, without surrounding
+ * whitespace, lowercased. Identifiers with the same canonical form share an
+ * address, so `"BAR-001"` and `" bar-001"` name the same item.
+ */
+export function normalizeIdentifier(identifier: string): string {
+  return identifier
+    .normalize("NFC")
+    .replace(IDENTIFIER_PADDING, "")
+    .toLowerCase();
+}
+
+/**
+ * The 32-byte PDA seed of a vault name or item id, matching the program's
+ * `identifier_seed`: SHA-256 of the normalized identifier.
+ */
+export function identifierSeed(identifier: string): Buffer {
+  return createHash("sha256").update(normalizeIdentifier(identifier)).digest();
+}
+
+/**
+ * Derives the `VaultAccount` PDA from the custodian that created the vault
+ * and its name, normalized as in `identifierSeed`. The address does not
+ * change when custody is handed over.
+ */
+export function findVaultAddress(
+  programId: PublicKey,
+  creator: PublicKey,
+  vaultName: string
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [VAULT_SEED, creator.toBuffer(), identifierSeed(vaultName)],
+    programId
+  );
+}
+
+/**
+ * Derives the `ItemRecord` PDA for an item id within a vault, normalized as
+ * in `identifierSeed`.
+ */
+export function findItemAddress(
+  programId: PublicKey,
+  vault: PublicKey,
+  itemId: string
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [ITEM_SEED, vault.toBuffer(), identifierSeed(itemId)],
+    programId
+  );
+}
+
+/** Derives the Token-2022 claim mint PDA of a tokenized item. */
+export function findClaimMintAddress(
+  programId: PublicKey,
+  item: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [CLAIM_MINT_SEED, item.toBuffer()],
+    programId
+  );
+}
+
+/** Derives the Token-2022 share mint PDA of a fractionalized item. */
+export function findShareMintAddress(
+  programId: PublicKey,
+  item: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [SHARE_MINT_SEED, item.toBuffer()],
+    programId
+  );
+}
+
+/** Derives the `AllowlistEntry` PDA approving a wallet in a vault. */
+export function findAllowlistAddress(
+  programId: PublicKey,
+  vault: PublicKey,
+  wallet: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [ALLOWLIST_SEED, vault.toBuffer(), wallet.toBuffer()],
+    programId
+  );
+}
+
+/** Derives the `VaultTreasury` PDA that collects a vault's fees. */
+export function findTreasuryAddress(
+  programId: PublicKey,
+  vault: PublicKey
+): [PublicKey, number] {
+  return PublicKey.findProgramAddressSync(
+    [TREASURY_SEED, vault.toBuffer()],
+    programId
+  );
+}
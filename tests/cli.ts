@@ -0,0 +1,243 @@
+import { expect } from "chai";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { VaultReceiptClient, createNonceAccount } from "../sdk";
+import { runCli } from "../cli/commands";
+import { TestCluster } from "./harness";
+
+describe("rwa cli", () => {
+  let cluster: TestCluster;
+  let client: VaultReceiptClient;
+
+  // Each party runs the CLI on its own machine with its own wallet.
+  const custodian = Keypair.generate();
+  const depositor = Keypair.generate();
+  const newOwner = Keypair.generate();
+
+  let vault: PublicKey;
+
+  const rwa = async (wallet: Keypair, ...argv: string[]) => {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = await runCli(argv, {
+      client,
+      wallet,
+      print: (line) => out.push(line),
+      printError: (line) => err.push(line),
+    });
+    return { code, out: out.join("\n"), err: err.join("\n") };
+  };
+
+  const rwaJson = async (wallet: Keypair, ...argv: string[]) => {
+    const { code, out, err } = await rwa(wallet, ...argv, "--json");
+    expect(code, err).to.equal(0);
+    return JSON.parse(out);
+  };
+
+  before(async () => {
+    cluster = new TestCluster();
+    client = new VaultReceiptClient(cluster.program);
+    await cluster.airdrop(
+      [custodian, depositor, newOwner].map((keypair) => keypair.publicKey)
+    );
+  });
+
+  it("Creates and lists a vault", async () => {
+    const created = await rwaJson(custodian, "vault", "create", "CliVault");
+    vault = new PublicKey(created.vault);
+    expect(vault.toBase58()).to.equal(
+      client.findVaultAddress(custodian.publicKey, "CliVault")[0].toBase58()
+    );
+
+    const vaults = await rwaJson(custodian, "vault", "ls");
+    expect(vaults).to.have.length(1);
+    expect(vaults[0]).to.include({
+      vault: vault.toBase58(),
+      name: "CliVault",
+      custodian: custodian.publicKey.toBase58(),
+      itemsIssued: "0",
+    });
+    expect(await rwaJson(depositor, "vault", "ls")).to.be.empty;
+  });
+
+  it("Issues an item co-signed on two machines", async () => {
+    const { blockhash } = await cluster.connection.getLatestBlockhash();
+
+    // The custodian signs offline and hands its signature over.
+    const signed = await rwaJson(
+      custodian,
+      "item",
+      "issue",
+      vault.toBase58(),
+      "CLI001",
+      "--depositor",
+      depositor.publicKey.toBase58(),
+      "--metadata",
+      "ipfs://cli001",
+      "--blockhash",
+      blockhash,
+      "--sign-only"
+    );
+    expect(signed.blockhash).to.equal(blockhash);
+    expect(signed.signers).to.have.length(1);
+    expect(signed.signers[0]).to.match(
+      new RegExp(`^${custodian.publicKey.toBase58()}=`)
+    );
+
+    // The depositor adds theirs and sends.
+    const sent = await rwaJson(
+      depositor,
+      "item",
+      "issue",
+      vault.toBase58(),
+      "CLI001",
+      "--custodian",
+      custodian.publicKey.toBase58(),
+      "--metadata",
+      "ipfs://cli001",
+      "--blockhash",
+      blockhash,
+      "--signer",
+      signed.signers[0]
+    );
+    expect(sent.signature).to.be.a("string");
+
+    const shown = await rwaJson(
+      depositor,
+      "item",
+      "show",
+      vault.toBase58(),
+      "CLI001"
+    );
+    expect(shown).to.include({
+      item: sent.item,
+      itemId: "CLI001",
+      depositor: depositor.publicKey.toBase58(),
+      custodian: custodian.publicKey.toBase58(),
+      metadata: "ipfs://cli001",
+      status: "active",
+    });
+  });
+
+  it("Issues an item co-signed on a durable nonce", async () => {
+    const nonce = await createNonceAccount(
+      client.program.provider.connection,
+      custodian,
+      custodian.publicKey
+    );
+    const signed = await rwaJson(
+      custodian,
+      "item",
+      "issue",
+      vault.toBase58(),
+      "CLI003",
+      "--depositor",
+      depositor.publicKey.toBase58(),
+      "--nonce",
+      nonce.toBase58(),
+      "--sign-only"
+    );
+    expect(signed.nonce).to.equal(nonce.toBase58());
+
+    // Long past the blockhash window, the signature still applies.
+    cluster.svm.expireBlockhash();
+    cluster.warp(60 * 60);
+
+    const sent = await rwaJson(
+      depositor,
+      "item",
+      "issue",
+      vault.toBase58(),
+      "CLI003",
+      "--custodian",
+      custodian.publicKey.toBase58(),
+      "--nonce",
+      nonce.toBase58(),
+      "--signer",
+      signed.signers[0]
+    );
+    expect(sent.signature).to.be.a("string");
+    expect(
+      (await client.fetchItem(new PublicKey(sent.item))).depositor.toBase58()
+    ).to.equal(depositor.publicKey.toBase58());
+  });
+
+  it("Refuses to send without every signature", async () => {
+    const { code, err } = await rwa(
+      depositor,
+      "item",
+      "issue",
+      vault.toBase58(),
+      "CLI002",
+      "--custodian",
+      custodian.publicKey.toBase58()
+    );
+    expect(code).to.equal(1);
+    expect(err).to.include("missing signatures");
+    expect(err).to.include(custodian.publicKey.toBase58());
+  });
+
+  it("Transfers and redeems the claim", async () => {
+    await rwaJson(
+      depositor,
+      "item",
+      "transfer",
+      vault.toBase58(),
+      "CLI001",
+      newOwner.publicKey.toBase58()
+    );
+
+    const { blockhash } = await cluster.connection.getLatestBlockhash();
+    const signed = await rwaJson(
+      custodian,
+      "item",
+      "redeem",
+      vault.toBase58(),
+      "CLI001",
+      "--redeemer",
+      newOwner.publicKey.toBase58(),
+      "--blockhash",
+      blockhash,
+      "--sign-only"
+    );
+    await rwaJson(
+      newOwner,
+      "item",
+      "redeem",
+      vault.toBase58(),
+      "CLI001",
+      "--custodian",
+      custodian.publicKey.toBase58(),
+      "--blockhash",
+      blockhash,
+      "--signer",
+      signed.signers[0]
+    );
+
+    const { out } = await rwa(
+      newOwner,
+      "item",
+      "show",
+      vault.toBase58(),
+      "CLI001"
+    );
+    expect(out).to.include(`depositor: ${newOwner.publicKey.toBase58()}`);
+    expect(out).to.include("status: redeemed");
+  });
+
+  it("Reports program errors and usage errors", async () => {
+    const transfer = await rwa(
+      depositor,
+      "item",
+      "transfer",
+      vault.toBase58(),
+      "CLI001",
+      depositor.publicKey.toBase58()
+    );
+    expect(transfer.code).to.equal(1);
+    expect(transfer.err).to.include("error:");
+
+    const usage = await rwa(custodian, "item", "burn", vault.toBase58());
+    expect(usage.code).to.equal(2);
+    expect(usage.err).to.include("unknown command: item burn");
+  });
+});
@@ -0,0 +1,431 @@
+import { AnchorProvider, Program, Wallet, utils } from "@coral-xyz/anchor";
+import {
+  AccountInfo,
+  ConfirmedSignatureInfo,
+  Connection,
+  GetProgramAccountsFilter,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  Logs,
+  PublicKey,
+  SendTransactionError,
+  Signer,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackAccount,
+  unpackMint,
+} from "@solana/spl-token";
+import { FailedTransactionMetadata, LiteSVM } from "litesvm";
+import * as fs from "fs";
+import * as path from "path";
+import { VaultReceipt } from "../target/types/vault_receipt";
+
+const ROOT = path.resolve(__dirname, "..");
+
+/** Unix time every cluster starts at, so timestamps are reproducible. */
+export const GENESIS_TIME = 1_700_000_000;
+
+interface ProcessedTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number;
+  logs: string[];
+  accounts: string[];
+}
+
+/**
+ * The part of `Connection` used by Anchor, `@solana/spl-token`, the SDK and
+ * the indexer, served from an in-process LiteSVM instead of an RPC node.
+ *
+ * Transactions execute synchronously on send, so there is nothing to wait
+ * for: a failed transaction throws `SendTransactionError` with its logs,
+ * exactly like a failed preflight. `onLogs` subscribers are called before
+ * the send returns. LiteSVM has no account index, so `getProgramAccounts`
+ * and `getTokenLargestAccounts` scan every account a transaction touched.
+ */
+export class LiteSVMConnection {
+  readonly commitment = "confirmed";
+  readonly rpcEndpoint = "litesvm";
+
+  private readonly touched = new Set<string>();
+  private readonly history: ProcessedTransaction[] = [];
+  private readonly logSubscriptions = new Map<
+    number,
+    { address: string; callback: (logs: Logs, ctx: { slot: number }) => void }
+  >();
+  private nextSubscriptionId = 0;
+
+  constructor(readonly svm: LiteSVM) {}
+
+  private get slot(): number {
+    return Number(this.svm.getClock().slot);
+  }
+
+  private get context(): { slot: number } {
+    return { slot: this.slot };
+  }
+
+  async getSlot(): Promise<number> {
+    return this.slot;
+  }
+
+  /** Time of the current slot; earlier slots are not kept. */
+  async getBlockTime(_slot: number): Promise<number | null> {
+    return Number(this.svm.getClock().unixTimestamp);
+  }
+
+  async getLatestBlockhash(): Promise<{
+    blockhash: string;
+    lastValidBlockHeight: number;
+  }> {
+    return {
+      blockhash: this.svm.latestBlockhash(),
+      lastValidBlockHeight: this.slot + 150,
+    };
+  }
+
+  async getMinimumBalanceForRentExemption(dataLength: number): Promise<number> {
+    return Number(this.svm.minimumBalanceForRentExemption(BigInt(dataLength)));
+  }
+
+  async getBalance(address: PublicKey): Promise<number> {
+    return this.account(address)?.lamports ?? 0;
+  }
+
+  async getAccountInfo(
+    address: PublicKey
+  ): Promise<AccountInfo<Buffer> | null> {
+    return this.account(address);
+  }
+
+  async getAccountInfoAndContext(address: PublicKey) {
+    return { context: this.context, value: this.account(address) };
+  }
+
+  async getMultipleAccountsInfo(addresses: PublicKey[]) {
+    return addresses.map((address) => this.account(address));
+  }
+
+  async getMultipleAccountsInfoAndContext(addresses: PublicKey[]) {
+    return {
+      context: this.context,
+      value: addresses.map((address) => this.account(address)),
+    };
+  }
+
+  /** jsonParsed is only implemented for token accounts. */
+  async getParsedAccountInfo(address: PublicKey) {
+    const info = this.account(address);
+    const token = info && this.tokenAccount(address, info);
+    if (!token) {
+      return { context: this.context, value: info };
+    }
+    return {
+      context: this.context,
+      value: {
+        ...info,
+        data: {
+          program: "spl-token",
+          parsed: {
+            type: "account",
+            info: {
+              mint: token.mint.toBase58(),
+              owner: token.owner.toBase58(),
+              tokenAmount: { amount: token.amount.toString() },
+              state: token.isFrozen ? "frozen" : "initialized",
+            },
+          },
+          space: info.data.length,
+        },
+      },
+    };
+  }
+
+  async getProgramAccounts(
+    programId: PublicKey,
+    config: { filters?: GetProgramAccountsFilter[] } = {}
+  ) {
+    const filters = config.filters ?? [];
+    return this.accounts()
+      .filter(({ account }) => account.owner.equals(programId))
+      .filter(({ account }) =>
+        filters.every((filter) => {
+          if ("dataSize" in filter) {
+            return account.data.length === filter.dataSize;
+          }
+          const { offset, bytes } = filter.memcmp;
+          const expected =
+            filter.memcmp.encoding === "base64"
+              ? Buffer.from(bytes, "base64")
+              : Buffer.from(utils.bytes.bs58.decode(bytes));
+          return account.data
+            .subarray(offset, offset + expected.length)
+            .equals(expected);
+        })
+      );
+  }
+
+  async getTokenLargestAccounts(mint: PublicKey) {
+    const mintInfo = this.account(mint);
+    const { decimals } = unpackMint(mint, mintInfo, mintInfo?.owner);
+    const holdings = this.accounts()
+      .map(({ pubkey, account }) => ({
+        address: pubkey,
+        token: this.tokenAccount(pubkey, account),
+      }))
+      .filter(({ token }) => token && token.mint.equals(mint))
+      .sort((a, b) => (a.token.amount < b.token.amount ? 1 : -1))
+      .slice(0, 20);
+    return {
+      context: this.context,
+      value: holdings.map(({ address, token }) => ({
+        address,
+        amount: token.amount.toString(),
+        decimals,
+        uiAmount: Number(token.amount) / Math.pow(10, decimals),
+        uiAmountString: (
+          Number(token.amount) / Math.pow(10, decimals)
+        ).toString(),
+      })),
+    };
+  }
+
+  async requestAirdrop(address: PublicKey, lamports: number): Promise<string> {
+    const result = this.svm.airdrop(address, BigInt(lamports));
+    if (!result || result instanceof FailedTransactionMetadata) {
+      throw new Error(`Airdrop to ${address.toBase58()} failed`);
+    }
+    this.touched.add(address.toBase58());
+    return utils.bytes.bs58.encode(result.signature());
+  }
+
+  /** Legacy transactions are signed here, like `Connection.sendTransaction`. */
+  async sendTransaction(
+    transaction: Transaction | VersionedTransaction,
+    signers: Signer[] = []
+  ): Promise<string> {
+    if (transaction instanceof Transaction) {
+      transaction.feePayer = transaction.feePayer ?? signers[0].publicKey;
+      transaction.recentBlockhash = this.svm.latestBlockhash();
+      transaction.sign(...signers);
+      return this.process(
+        VersionedTransaction.deserialize(transaction.serialize())
+      );
+    }
+    return this.process(transaction);
+  }
+
+  async sendRawTransaction(raw: Buffer | Uint8Array | number[]) {
+    return this.process(VersionedTransaction.deserialize(Uint8Array.from(raw)));
+  }
+
+  async confirmTransaction(_strategy: unknown, _commitment?: unknown) {
+    return { context: this.context, value: { err: null } };
+  }
+
+  async getTransaction(signature: string, _config?: unknown) {
+    const tx = this.history.find((tx) => tx.signature === signature);
+    if (!tx) {
+      return null;
+    }
+    return {
+      slot: tx.slot,
+      blockTime: tx.blockTime,
+      meta: { err: null, logMessages: tx.logs },
+    };
+  }
+
+  /** Newest first, like the RPC method; only landed transactions are kept. */
+  async getSignaturesForAddress(
+    address: PublicKey,
+    {
+      before,
+      until,
+      limit = 1000,
+    }: { before?: string; until?: string; limit?: number } = {},
+    _commitment?: unknown
+  ): Promise<ConfirmedSignatureInfo[]> {
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let started = before === undefined;
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const tx = this.history[i];
+      if (!started) {
+        started = tx.signature === before;
+        continue;
+      }
+      if (tx.signature === until || signatures.length === limit) {
+        break;
+      }
+      if (tx.accounts.indexOf(address.toBase58()) >= 0) {
+        signatures.push({
+          signature: tx.signature,
+          slot: tx.slot,
+          blockTime: tx.blockTime,
+          err: null,
+          memo: null,
+          confirmationStatus: "confirmed",
+        });
+      }
+    }
+    return signatures;
+  }
+
+  onLogs(
+    filter: PublicKey,
+    callback: (logs: Logs, ctx: { slot: number }) => void,
+    _commitment?: unknown
+  ): number {
+    const id = this.nextSubscriptionId++;
+    this.logSubscriptions.set(id, { address: filter.toBase58(), callback });
+    return id;
+  }
+
+  async removeOnLogsListener(id: number): Promise<void> {
+    this.logSubscriptions.delete(id);
+  }
+
+  private process(transaction: VersionedTransaction): string {
+    const signature = utils.bytes.bs58.encode(transaction.signatures[0]);
+    // litesvm bundles its own web3.js; it only serializes the transaction.
+    const result = this.svm.sendTransaction(
+      transaction as unknown as Parameters<LiteSVM["sendTransaction"]>[0]
+    );
+    if (result instanceof FailedTransactionMetadata) {
+      throw new SendTransactionError({
+        action: "send",
+        signature,
+        transactionMessage: result.err().toString(),
+        logs: result.meta().logs(),
+      });
+    }
+    // Identical retries would otherwise be rejected as already processed.
+    this.svm.expireBlockhash();
+
+    const accounts = transaction.message.staticAccountKeys.map((key) =>
+      key.toBase58()
+    );
+    accounts.forEach((account) => this.touched.add(account));
+    const processed = {
+      signature,
+      slot: this.slot,
+      blockTime: Number(this.svm.getClock().unixTimestamp),
+      logs: result.logs(),
+      accounts,
+    };
+    this.history.push(processed);
+
+    this.logSubscriptions.forEach(({ address, callback }) => {
+      if (accounts.indexOf(address) >= 0) {
+        callback(
+          { signature, err: null, logs: processed.logs },
+          { slot: processed.slot }
+        );
+      }
+    });
+    return signature;
+  }
+
+  private account(address: PublicKey): AccountInfo<Buffer> | null {
+    const account = this.svm.getAccount(address);
+    // Closed accounts can still be returned with no lamports; RPC nodes
+    // report them as missing.
+    if (!account || account.lamports === 0) {
+      return null;
+    }
+    return { ...account, data: Buffer.from(account.data) };
+  }
+
+  private accounts(): { pubkey: PublicKey; account: AccountInfo<Buffer> }[] {
+    const found: { pubkey: PublicKey; account: AccountInfo<Buffer> }[] = [];
+    this.touched.forEach((address) => {
+      const pubkey = new PublicKey(address);
+      const account = this.account(pubkey);
+      if (account) {
+        found.push({ pubkey, account });
+      }
+    });
+    return found;
+  }
+
+  private tokenAccount(address: PublicKey, info: AccountInfo<Buffer>) {
+    if (
+      !info.owner.equals(TOKEN_PROGRAM_ID) &&
+      !info.owner.equals(TOKEN_2022_PROGRAM_ID)
+    ) {
+      return null;
+    }
+    try {
+      return unpackAccount(address, info, info.owner);
+    } catch {
+      // A mint, not a token account.
+      return null;
+    }
+  }
+}
+
+/**
+ * An in-process cluster with the vault_receipt program deployed from
+ * `target/deploy`, a funded provider wallet and a controllable clock.
+ */
+export class TestCluster {
+  readonly svm: LiteSVM;
+  readonly connection: LiteSVMConnection;
+  readonly provider: AnchorProvider;
+  readonly program: Program<VaultReceipt>;
+
+  constructor() {
+    const idl = JSON.parse(
+      fs.readFileSync(
+        path.join(ROOT, "target", "idl", "vault_receipt.json"),
+        "utf8"
+      )
+    );
+    this.svm = new LiteSVM();
+    this.svm.addProgramFromFile(
+      new PublicKey(idl.address),
+      path.join(ROOT, "target", "deploy", "rwa.so")
+    );
+    this.warpTo(GENESIS_TIME);
+
+    this.connection = new LiteSVMConnection(this.svm);
+    const payer = Keypair.generate();
+    this.svm.airdrop(payer.publicKey, BigInt(100 * LAMPORTS_PER_SOL));
+    this.provider = new AnchorProvider(
+      this.connection as unknown as Connection,
+      new Wallet(payer),
+      { commitment: "confirmed" }
+    );
+    this.program = new Program<VaultReceipt>(idl, this.provider);
+  }
+
+  /** Current cluster time, in unix seconds. */
+  now(): number {
+    return Number(this.svm.getClock().unixTimestamp);
+  }
+
+  /** Sets the cluster clock to `unixTimestamp` and moves to the next slot. */
+  warpTo(unixTimestamp: number): void {
+    const clock = this.svm.getClock();
+    clock.unixTimestamp = BigInt(unixTimestamp);
+    clock.slot = clock.slot + BigInt(1);
+    this.svm.setClock(clock);
+  }
+
+  /** Advances the cluster clock by `seconds`. */
+  warp(seconds: number): void {
+    this.warpTo(this.now() + seconds);
+  }
+
+  async airdrop(
+    addresses: PublicKey[],
+    lamports = 2 * LAMPORTS_PER_SOL
+  ): Promise<void> {
+    for (const address of addresses) {
+      await this.connection.requestAirdrop(address, lamports);
+    }
+  }
+}